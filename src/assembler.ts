@@ -0,0 +1,527 @@
+//#################################################################################
+//#     Title:  Assembler 6510
+//#     Author: Delta Thiesen <delta.thiesen.1990@gmail.com>
+//#################################################################################
+//#     Sources:
+//#         - https://www.masswerk.at/6502/6502_instruction_set.html
+//#         - https://www.masswerk.at/6502/assembler.html
+//#################################################################################
+
+//#################################################################################
+//#
+//#     IMPORTS
+//#
+//#################################################################################
+
+import { byte, word } from "@hulle107/libslm-binary";
+import { AddressingName, Mnemonic, Opcode, OPCODES } from "./opcodes";
+
+//#################################################################################
+//#
+//#     TYPES
+//#
+//#################################################################################
+
+export type Symbols = Record<string, number>;
+
+type Operand =
+    | { kind: 'none' }
+    | { kind: 'immediate', expression: string }
+    | { kind: 'indexedIndirect', expression: string }
+    | { kind: 'indirectIndexed', expression: string }
+    | { kind: 'indirect', expression: string }
+    | { kind: 'indexedX', expression: string }
+    | { kind: 'indexedY', expression: string }
+    | { kind: 'direct', expression: string };
+
+//#################################################################################
+//#
+//#     INTERFACES
+//#
+//#################################################################################
+
+/**
+ * # Assembled Segment
+ * 
+ * The bytes assembled from *one* origin set by `*=`.
+ */
+export interface AssembledSegment {
+    address: word;
+    bytes: byte[];
+}
+
+/**
+ * # Assembled Program
+ * 
+ * The result of {@link assemble}, where {@link bytes} covers every segment from {@link origin}, with the gaps between
+ * them filled with *zero*.
+ */
+export interface AssembledProgram {
+    origin: word;
+    bytes: byte[];
+    segments: AssembledSegment[];
+    symbols: Symbols;
+}
+
+interface Statement {
+    line: number;
+    address: word;
+    opcode?: Readonly<Opcode>;
+    operand?: Operand;
+    directive?: string;
+    arguments?: string[];
+}
+
+//#################################################################################
+//#
+//#     CLASSES
+//#
+//#################################################################################
+
+/**
+ * # Assembler Error
+ * 
+ * Thrown by {@link assemble}, telling the source line the error was found at.
+ */
+export class AssemblerError extends Error {
+    public readonly line: number;
+
+    constructor(message: string, line: number) {
+        super('Line ' + line + ': ' + message);
+        this.name = 'AssemblerError';
+        this.line = line;
+    }
+}
+
+//#################################################################################
+//#
+//#     CONSTANTS
+//#
+//#################################################################################
+
+const ORIGIN_DEFUALT = word(0);
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const MNEMONICS: string[] = OPCODES.map((opcode) => opcode.mnemonic).filter((mnemonic, index, mnemonics) => mnemonics.indexOf(mnemonic) === index);
+
+const STATUS_ORDER = ['legal', 'illegal', 'unstable'];
+
+//#################################################################################
+//#
+//#     PUBLIC FUNCTIONS
+//#
+//#################################################################################
+
+/**
+ * # Assemble
+ * 
+ * Assembles the source in *two* passes, where the first pass learns the address of every label and the second pass
+ * writes the bytes.
+ * 
+ * Each line holds an optional label, followed by an instruction, a `.byte`, `.word` or `.text` directive, an origin
+ * `*= expression` or a constant `name = expression`, where a `;` starts a comment.
+ * 
+ * Expressions can use numbers written as `$FF`, `%1010`, `255` or `'A'`, labels, `*` for the current address, `+`,
+ * `-`, `*`, `/`, parentheses and `<` and `>` for the low and high order *eight* bits.
+ * 
+ * Origins and constants can only use symbols defined above them. When an operand can be written both as zero page and
+ * absolute, zero page is used when the value is known in the first pass and fits, so labels defined later always use
+ * absolute. A hexadecimal number written with more than *two* digits, like `$0010`, also uses absolute, as the
+ * disassembler writes absolute operands.
+ * 
+ * Segments can not overlap, and an operand in parentheses is only allowed for instructions with indirect addressing.
+ * 
+ * Values must fit, from `-$80` to `$FF` for bytes and from `-$8000` to `$FFFF` for words, origins and absolute
+ * operands, and dividing by zero is an error.
+ */
+export function assemble(source: string): AssembledProgram {
+    let symbols: Symbols = {};
+    let statements: Statement[] = [];
+    let address = ORIGIN_DEFUALT;
+
+    source.split(/\r?\n/).forEach((text, index) => {
+        let line = index + 1;
+        let rest = stripComment(text).trim();
+        if (rest === '') return;
+
+        let origin = /^\*\s*=\s*(.+)$/.exec(rest);
+        if (origin) {
+            address = checkWord(evaluate(origin[1], symbols, address, line, true), line);
+            return;
+        }
+
+        let constant = /^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.+)$/.exec(rest);
+        if (constant) {
+            define(symbols, constant[1], evaluate(constant[2], symbols, address, line, true), line);
+            return;
+        }
+
+        let label = /^([A-Za-z_][A-Za-z0-9_]*)(:|\s+|$)(.*)$/.exec(rest);
+        if (label && (label[2] === ':' || !isMnemonic(label[1]))) {
+            define(symbols, label[1], address, line);
+            rest = label[3].trim();
+            if (rest === '') return;
+        }
+
+        let statement = parseStatement(rest, symbols, address, line);
+        statements.push(statement);
+        address = word(address + size(statement, line));
+    });
+
+    return write(statements, symbols);
+}
+
+//#################################################################################
+//#
+//#     PRIVATE FUNCTIONS
+//#
+//#################################################################################
+
+//---------------------------------------------------------------------------------
+//      First Pass
+//---------------------------------------------------------------------------------
+
+function parseStatement(text: string, symbols: Symbols, address: word, line: number): Statement {
+    let parts = /^(\.?[A-Za-z]+)\s*(.*)$/.exec(text);
+    if (!parts) throw new AssemblerError('Unexpected "' + text + '"', line);
+
+    let name = parts[1].toUpperCase();
+    let rest = parts[2].trim();
+
+    if (name[0] === '.') {
+        if (name !== '.BYTE' && name !== '.WORD' && name !== '.TEXT') throw new AssemblerError('Unknown directive "' + parts[1] + '"', line);
+        return { line: line, address: address, directive: name, arguments: splitArguments(rest, line) };
+    }
+
+    if (!isMnemonic(name)) throw new AssemblerError('Unknown mnemonic "' + parts[1] + '"', line);
+
+    let operand = parseOperand(name, rest, line);
+    let opcode = selectOpcode(name as Mnemonic, operand, symbols, address, line);
+
+    return { line: line, address: address, opcode: opcode, operand: operand };
+}
+
+function parseOperand(mnemonic: string, text: string, line: number): Operand {
+    let match: RegExpExecArray | null;
+
+    if (text === '' || /^A$/i.test(text)) return { kind: 'none' };
+    if ((match = /^#(.+)$/.exec(text))) return { kind: 'immediate', expression: match[1] };
+    if ((match = /^\((.+),\s*X\s*\)$/i.exec(text))) return { kind: 'indexedIndirect', expression: match[1] };
+    if ((match = /^\((.+)\)\s*,\s*Y$/i.exec(text))) return { kind: 'indirectIndexed', expression: match[1] };
+    if ((match = /^\((.+)\)$/.exec(text)) && isEnclosed(text)) {
+        if (!hasAddressing(mnemonic, 'IND')) throw new AssemblerError('Indirect addressing not supported by ' + mnemonic, line);
+        return { kind: 'indirect', expression: match[1] };
+    }
+    if ((match = /^(.+),\s*X$/i.exec(text))) return { kind: 'indexedX', expression: match[1] };
+    if ((match = /^(.+),\s*Y$/i.exec(text))) return { kind: 'indexedY', expression: match[1] };
+
+    return { kind: 'direct', expression: text };
+}
+
+function selectOpcode(mnemonic: Mnemonic, operand: Operand, symbols: Symbols, address: word, line: number): Readonly<Opcode> {
+    let candidates: AddressingName[] = [];
+
+    switch (operand.kind) {
+        case 'none': candidates = ['IMP', 'ACU']; break;
+        case 'immediate': candidates = ['IMM']; break;
+        case 'indexedIndirect': candidates = ['IDX']; break;
+        case 'indirectIndexed': candidates = ['IDY']; break;
+        case 'indirect': candidates = ['IND']; break;
+        case 'indexedX': candidates = isZeroPage(operand.expression, symbols, address, line)? ['ZPX', 'ABX'] : ['ABX']; break;
+        case 'indexedY': candidates = isZeroPage(operand.expression, symbols, address, line)? ['ZPY', 'ABY'] : ['ABY']; break;
+        case 'direct': candidates = isZeroPage(operand.expression, symbols, address, line)? ['REL', 'ZPG', 'ABS', 'ABJ', 'SUB'] : ['REL', 'ABS', 'ABJ', 'SUB']; break;
+    }
+
+    for (let addressing of candidates) {
+        let opcode = findOpcode(mnemonic, addressing);
+        if (opcode) return opcode;
+    }
+
+    throw new AssemblerError('Addressing not supported by ' + mnemonic, line);
+}
+
+function findOpcode(mnemonic: Mnemonic, addressing: AddressingName): Readonly<Opcode> | undefined {
+    let found: Readonly<Opcode> | undefined;
+
+    for (let opcode of OPCODES) {
+        if (opcode.mnemonic !== mnemonic || opcode.addressing !== addressing) continue;
+        if (!found || STATUS_ORDER.indexOf(opcode.status) < STATUS_ORDER.indexOf(found.status)) found = opcode;
+    }
+
+    return found;
+}
+
+function size(statement: Statement, line: number): number {
+    if (statement.opcode) return statement.opcode.bytes;
+
+    let args = statement.arguments || [];
+
+    switch (statement.directive) {
+        case '.WORD': return args.length * 2;
+        default: return args.reduce((total, argument) => total + (isString(argument)? parseString(argument, line).length : 1), 0);
+    }
+}
+
+//---------------------------------------------------------------------------------
+//      Second Pass
+//---------------------------------------------------------------------------------
+
+function write(statements: Statement[], symbols: Symbols): AssembledProgram {
+    let segments: AssembledSegment[] = [];
+    let segment: AssembledSegment | undefined;
+
+    for (let statement of statements) {
+        let bytes = encode(statement, symbols);
+
+        if (!segment || segment.address + segment.bytes.length !== statement.address) {
+            segment = { address: statement.address, bytes: [] };
+            segments.push(segment);
+        }
+
+        let current = segment;
+        let overlapped = segments.find((other) => other !== current && statement.address < other.address + other.bytes.length && other.address < statement.address + bytes.length);
+        if (overlapped) throw new AssemblerError('Overlaps the segment at $' + word.toHexadecimal(overlapped.address), statement.line);
+
+        segment.bytes.push(...bytes);
+    }
+
+    return { ...image(segments), segments: segments, symbols: symbols };
+}
+
+function encode(statement: Statement, symbols: Symbols): byte[] {
+    let line = statement.line;
+    let value = (expression: string) => evaluate(expression, symbols, statement.address, line, true);
+
+    if (statement.directive) {
+        let bytes: byte[] = [];
+
+        for (let argument of statement.arguments || []) {
+            if (statement.directive === '.WORD') {
+                let data = checkWord(value(argument), line);
+                bytes.push(byte(data), byte(data >> byte.size));
+            }
+            else if (isString(argument)) bytes.push(...parseString(argument, line));
+            else bytes.push(checkByte(value(argument), line));
+        }
+
+        return bytes;
+    }
+
+    let opcode = statement.opcode!;
+    let operand = statement.operand!;
+    if (operand.kind === 'none') return [opcode.opcode];
+
+    let data = value(operand.expression);
+
+    if (opcode.addressing === 'REL') {
+        let offset = data - (statement.address + 2);
+        if (offset < -128 || offset > 127) throw new AssemblerError('Branch target out of range', line);
+        return [opcode.opcode, byte(offset)];
+    }
+
+    if (opcode.bytes === 2) return [opcode.opcode, checkByte(data, line)];
+
+    let address = checkWord(data, line);
+    return [opcode.opcode, byte(address), byte(address >> byte.size)];
+}
+
+function image(segments: AssembledSegment[]): { origin: word, bytes: byte[] } {
+    if (segments.length === 0) return { origin: ORIGIN_DEFUALT, bytes: [] };
+
+    let origin = Math.min(...segments.map((segment) => segment.address));
+    let bytes: byte[] = [];
+
+    for (let segment of segments) {
+        segment.bytes.forEach((data, index) => bytes[segment.address - origin + index] = data);
+    }
+
+    for (let index = 0; index < bytes.length; index++) if (bytes[index] === undefined) bytes[index] = 0;
+
+    return { origin: word(origin), bytes: bytes };
+}
+
+//---------------------------------------------------------------------------------
+//      Expressions
+//---------------------------------------------------------------------------------
+
+/**
+ * # Evaluate
+ * 
+ * Evaluates an expression by recursive descent, where an unknown symbol is an error only when it is *strict*, as in the
+ * second pass, and otherwise gives `NaN`.
+ */
+function evaluate(expression: string, symbols: Symbols, address: word, line: number, strict: boolean = false): number {
+    let tokens = tokenize(expression, line);
+    let position = 0;
+
+    let peek = () => tokens[position];
+    let next = () => tokens[position++];
+
+    let primary = (): number => {
+        let token = next();
+        if (token === undefined) throw new AssemblerError('Unexpected end of expression "' + expression + '"', line);
+        if (token === '(') {
+            let result = sum();
+            if (next() !== ')') throw new AssemblerError('Missing ")" in "' + expression + '"', line);
+            return result;
+        }
+        if (token === '*') return address;
+        if (token[0] === '$') return parseInt(token.slice(1), 16);
+        if (token[0] === '%') return parseInt(token.slice(1), 2);
+        if (token[0] === "'") return token.charCodeAt(1);
+        if (/^[0-9]/.test(token)) return parseInt(token, 10);
+        if (IDENTIFIER.test(token)) {
+            if (symbols[token] !== undefined) return symbols[token];
+            if (strict) throw new AssemblerError('Unknown symbol "' + token + '"', line);
+            return NaN;
+        }
+        throw new AssemblerError('Unexpected "' + token + '" in "' + expression + '"', line);
+    };
+
+    let unary = (): number => {
+        let token = peek();
+        if (token === '<') { next(); return unary() & 0xFF; }
+        if (token === '>') { next(); return (unary() >> byte.size) & 0xFF; }
+        if (token === '-') { next(); return -unary(); }
+        return primary();
+    };
+
+    let product = (): number => {
+        let result = unary();
+        while (peek() === '*' || peek() === '/') {
+            let operator = next();
+            let right = unary();
+            if (operator === '/' && right === 0) throw new AssemblerError('Division by zero in "' + expression + '"', line);
+            result = operator === '*'? result * right : Math.floor(result / right);
+        }
+        return result;
+    };
+
+    let sum = (): number => {
+        let result = product();
+        while (peek() === '+' || peek() === '-') {
+            let operator = next();
+            let right = product();
+            result = operator === '+'? result + right : result - right;
+        }
+        return result;
+    };
+
+    let result = sum();
+    if (position !== tokens.length) throw new AssemblerError('Unexpected "' + peek() + '" in "' + expression + '"', line);
+
+    return result;
+}
+
+function tokenize(expression: string, line: number): string[] {
+    let tokens: string[] = [];
+    let pattern = /\s*(\$[0-9A-Fa-f]+|%[01]+|[0-9]+|'.'|[A-Za-z_][A-Za-z0-9_]*|[-+*\/<>()])/y;
+    let index = 0;
+
+    while (index < expression.length) {
+        if (expression.slice(index).trim() === '') break;
+
+        pattern.lastIndex = index;
+        let match = pattern.exec(expression);
+        if (!match) throw new AssemblerError('Unexpected "' + expression.slice(index).trim() + '"', line);
+
+        tokens.push(match[1]);
+        index = pattern.lastIndex;
+    }
+
+    return tokens;
+}
+
+//---------------------------------------------------------------------------------
+//      Helpers
+//---------------------------------------------------------------------------------
+
+function define(symbols: Symbols, name: string, value: number, line: number): void {
+    if (isMnemonic(name.toUpperCase()) || /^[AXY]$/i.test(name)) throw new AssemblerError('Reserved name "' + name + '"', line);
+    if (symbols[name] !== undefined) throw new AssemblerError('Symbol "' + name + '" already defined', line);
+    symbols[name] = value;
+}
+
+function isMnemonic(name: string): boolean {
+    return MNEMONICS.indexOf(name.toUpperCase()) !== -1;
+}
+
+function hasAddressing(mnemonic: string, addressing: AddressingName): boolean {
+    return findOpcode(mnemonic.toUpperCase() as Mnemonic, addressing) !== undefined;
+}
+
+function isZeroPage(expression: string, symbols: Symbols, address: word, line: number): boolean {
+    if (/^\$[0-9A-Fa-f]{3,}$/.test(expression.trim())) return false;
+
+    let value = evaluate(expression, symbols, address, line);
+    return !isNaN(value) && value >= 0 && value <= 0xFF;
+}
+
+function isEnclosed(text: string): boolean {
+    let depth = 0;
+
+    for (let index = 0; index < text.length; index++) {
+        if (text[index] === '(') depth++;
+        if (text[index] === ')') depth--;
+        if (depth === 0 && index < text.length - 1) return false;
+    }
+
+    return true;
+}
+
+function isString(argument: string): boolean {
+    return argument[0] === '"';
+}
+
+function parseString(argument: string, line: number): byte[] {
+    if (argument.length < 2 || argument[argument.length - 1] !== '"') throw new AssemblerError('Unterminated string ' + argument, line);
+    let bytes: byte[] = [];
+    for (let index = 1; index < argument.length - 1; index++) bytes.push(byte(argument.charCodeAt(index)));
+    return bytes;
+}
+
+function checkByte(value: number, line: number): byte {
+    if (value < -128 || value > 0xFF) throw new AssemblerError('Value ' + value + ' does not fit in a byte', line);
+    return byte(value);
+}
+
+function checkWord(value: number, line: number): word {
+    if (value < -0x8000 || value > 0xFFFF) throw new AssemblerError('Value ' + value + ' does not fit in a word', line);
+    return word(value);
+}
+
+function splitArguments(text: string, line: number): string[] {
+    let args: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let character of text) {
+        if (character === '"') quoted = !quoted;
+        if (character === ',' && !quoted) {
+            args.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += character;
+    }
+
+    if (quoted) throw new AssemblerError('Unterminated string', line);
+    if (current.trim() !== '') args.push(current.trim());
+    if (args.length === 0 || args.some((argument) => argument === '')) throw new AssemblerError('Missing argument', line);
+
+    return args;
+}
+
+function stripComment(text: string): string {
+    let quoted = false;
+
+    for (let index = 0; index < text.length; index++) {
+        if (text[index] === '"' || (text[index] === "'" && text[index + 2] === "'")) {
+            if (text[index] === "'") { index += 2; continue; }
+            quoted = !quoted;
+        }
+        if (text[index] === ';' && !quoted) return text.slice(0, index);
+    }
+
+    return text;
+}
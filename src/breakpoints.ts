@@ -0,0 +1,297 @@
+//#################################################################################
+//#     Title:  Breakpoints 6510
+//#     Author: Delta Thiesen <delta.thiesen.1990@gmail.com>
+//#################################################################################
+
+//#################################################################################
+//#
+//#     IMPORTS
+//#
+//#################################################################################
+
+import { byte, word } from "@hulle107/libslm-binary";
+import { Registers } from "./cpu6510";
+import { compileCondition, Condition, ConditionContext } from "./conditions";
+
+//#################################################################################
+//#
+//#     TYPES
+//#
+//#################################################################################
+
+export type BreakpointDefinition =
+    | { kind: 'execute', address: word }
+    | { kind: 'read', start: word, end?: word }
+    | { kind: 'write', start: word, end?: word }
+    | { kind: 'opcode', opcode: byte }
+    | { kind: 'register', register: keyof Registers, value: number }
+    | { kind: 'condition', condition: string };
+
+export type BreakpointKind = BreakpointDefinition['kind'];
+
+//#################################################################################
+//#
+//#     INTERFACES
+//#
+//#################################################################################
+
+/**
+ * # Breakpoint
+ * 
+ * A breakpoint added to a {@link BreakpointManager}, where the *end* of a read or write range is included.
+ */
+export interface Breakpoint {
+    id: number;
+    enabled: boolean;
+    definition: BreakpointDefinition;
+
+    /**
+     * The condition that also has to hold for the breakpoint to fire, see {@link compileCondition}.
+     */
+    condition?: string;
+
+    /**
+     * The number of times the breakpoint matched with its condition holding, including the ignored times.
+     */
+    hits: number;
+
+    /**
+     * The number of *first* hits that do not fire the breakpoint.
+     */
+    ignore: number;
+}
+
+/**
+ * # Breakpoint Options
+ */
+export interface BreakpointOptions {
+    /**
+     * A condition like `A == $20 && X > 3`, that has to hold when the breakpoint matches, see {@link compileCondition}.
+     */
+    condition: string;
+
+    /**
+     * The number of *first* hits that do not fire the breakpoint.
+     */
+    ignore: number;
+}
+
+/**
+ * # Breakpoint Hit
+ * 
+ * Tells which breakpoint fired, where *address* and *data* are those of the bus access, or the **program counter** and
+ * operation code of the instruction.
+ */
+export interface BreakpointHit {
+    breakpoint: Readonly<Breakpoint>;
+    address: word;
+    data: byte;
+}
+
+//#################################################################################
+//#
+//#     CLASSES
+//#
+//#################################################################################
+
+/**
+ * # Breakpoint Manager
+ * 
+ * Holds the breakpoints of a {@link cpu6510}, which checks them in the clock cycles they concern:
+ * 
+ * - *execute*, *register* and *condition* between instructions, when the next instruction is loaded rather than an
+ *   interrupt.
+ * - *opcode* when the operation code is read.
+ * - *read* and *write* on every access of the bus, including the dummy accesses.
+ * 
+ * Conditions are evaluated against the context given on construction, which is the processor itself.
+ */
+export class BreakpointManager {
+    protected breakpoints: Breakpoint[] = [];
+    protected nextId: number = 1;
+    protected context: ConditionContext;
+
+    /**
+     * # Conditions
+     * 
+     * The compiled conditions of the breakpoints, by id, where those of *condition* breakpoints are in
+     * {@link definitionConditions}.
+     */
+    protected conditions: Record<number, Condition> = {};
+    protected definitionConditions: Record<number, Condition> = {};
+
+    /**
+     * # Matching
+     * 
+     * Used to only fire *register* and *condition* breakpoints when they start to match, not while they keep matching.
+     */
+    protected matching: Record<number, boolean> = {};
+
+    constructor(context: ConditionContext) {
+        this.context = context;
+    }
+
+    /**
+     * # List
+     * 
+     * The breakpoints in the order they were added.
+     */
+    public get list(): ReadonlyArray<Readonly<Breakpoint>> { return this.breakpoints; }
+
+    /**
+     * # Add
+     * 
+     * Adds a breakpoint, enabled, returning it with the id used to remove it.
+     * 
+     * ## - Throws
+     * 
+     * A {@link ConditionError} when a condition can not be compiled, before the breakpoint is added.
+     */
+    public add(definition: BreakpointDefinition, options: Partial<BreakpointOptions> = {}): Readonly<Breakpoint> {
+        let definitionCondition = definition.kind === 'condition'? compileCondition(definition.condition) : undefined;
+        let condition = options.condition !== undefined? compileCondition(options.condition) : undefined;
+
+        let breakpoint: Breakpoint = { id: this.nextId++, enabled: true, definition: definition, hits: 0, ignore: options.ignore || 0 };
+        if (condition) breakpoint.condition = condition.source;
+        if (definitionCondition) this.definitionConditions[breakpoint.id] = definitionCondition;
+        if (condition) this.conditions[breakpoint.id] = condition;
+
+        this.breakpoints.push(breakpoint);
+        return breakpoint;
+    }
+
+    /**
+     * # Remove
+     * 
+     * Removes the breakpoint with the id, returning whether there was one.
+     */
+    public remove(id: number): boolean {
+        let index = this.breakpoints.findIndex((breakpoint) => breakpoint.id === id);
+        if (index === -1) return false;
+
+        this.breakpoints.splice(index, 1);
+        delete this.definitionConditions[id];
+        delete this.conditions[id];
+        delete this.matching[id];
+        return true;
+    }
+
+    /**
+     * # Enable
+     * 
+     * Enables or disables the breakpoint with the id, returning whether there was one.
+     */
+    public enable(id: number, enabled: boolean = true): boolean {
+        let breakpoint = this.breakpoints.find((breakpoint) => breakpoint.id === id);
+        if (!breakpoint) return false;
+
+        breakpoint.enabled = enabled;
+        return true;
+    }
+
+    /**
+     * # Clear
+     * 
+     * Removes every breakpoint.
+     */
+    public clear(): void {
+        this.breakpoints = [];
+        this.conditions = {};
+        this.definitionConditions = {};
+        this.matching = {};
+    }
+
+    /**
+     * # Check Instruction
+     * 
+     * Checks the *execute*, *register* and *condition* breakpoints between instructions.
+     */
+    public checkInstruction(): BreakpointHit | undefined {
+        let registers = this.context.registers;
+        let hit: BreakpointHit | undefined;
+
+        for (let breakpoint of this.breakpoints) {
+            if (!breakpoint.enabled) continue;
+
+            let definition = breakpoint.definition;
+            let matching = false;
+
+            if (definition.kind === 'execute') matching = definition.address === registers.programCounter;
+            else if (definition.kind === 'register') matching = this.startsMatching(breakpoint.id, registers[definition.register] === definition.value);
+            else if (definition.kind === 'condition') matching = this.startsMatching(breakpoint.id, this.definitionConditions[breakpoint.id].evaluate(this.context));
+            else continue;
+
+            if (matching && this.fires(breakpoint) && !hit) hit = { breakpoint: breakpoint, address: registers.programCounter, data: 0 };
+        }
+
+        return hit;
+    }
+
+    /**
+     * # Check Opcode
+     * 
+     * Checks the *opcode* breakpoints when an operation code is read.
+     */
+    public checkOpcode(address: word, opcode: byte): BreakpointHit | undefined {
+        return this.find('opcode', address, opcode, (definition) => definition.kind === 'opcode' && definition.opcode === opcode);
+    }
+
+    /**
+     * # Check Read
+     * 
+     * Checks the *read* breakpoints when the bus is read.
+     */
+    public checkRead(address: word, data: byte): BreakpointHit | undefined {
+        return this.find('read', address, data, (definition) => definition.kind === 'read' && isInRange(address, definition.start, definition.end));
+    }
+
+    /**
+     * # Check Write
+     * 
+     * Checks the *write* breakpoints when the bus is written.
+     */
+    public checkWrite(address: word, data: byte): BreakpointHit | undefined {
+        return this.find('write', address, data, (definition) => definition.kind === 'write' && isInRange(address, definition.start, definition.end));
+    }
+
+    protected find(kind: BreakpointKind, address: word, data: byte, matches: (definition: BreakpointDefinition) => boolean): BreakpointHit | undefined {
+        let hit: BreakpointHit | undefined;
+
+        for (let breakpoint of this.breakpoints) {
+            if (!breakpoint.enabled || breakpoint.definition.kind !== kind) continue;
+            if (matches(breakpoint.definition) && this.fires(breakpoint) && !hit) hit = { breakpoint: breakpoint, address: address, data: data };
+        }
+
+        return hit;
+    }
+
+    /**
+     * # Fires
+     * 
+     * Used when a breakpoint matches, to count the hit when its condition holds, and tell whether it is past the hits
+     * to ignore.
+     */
+    protected fires(breakpoint: Breakpoint): boolean {
+        let condition = this.conditions[breakpoint.id];
+        if (condition && !condition.evaluate(this.context)) return false;
+
+        breakpoint.hits++;
+        return breakpoint.hits > breakpoint.ignore;
+    }
+
+    protected startsMatching(id: number, matching: boolean): boolean {
+        let starts = matching && !this.matching[id];
+        this.matching[id] = matching;
+        return starts;
+    }
+}
+
+//#################################################################################
+//#
+//#     PRIVATE FUNCTIONS
+//#
+//#################################################################################
+
+function isInRange(address: word, start: word, end: word = start): boolean {
+    return address >= start && address <= end;
+}
@@ -0,0 +1,248 @@
+//#################################################################################
+//#     Title:  Bus Trace 6510
+//#     Author: Delta Thiesen <delta.thiesen.1990@gmail.com>
+//#################################################################################
+//#     Sources:
+//#         - https://en.wikipedia.org/wiki/Value_change_dump
+//#################################################################################
+
+//#################################################################################
+//#
+//#     IMPORTS
+//#
+//#################################################################################
+
+import { byte, word } from "@hulle107/libslm-binary";
+import { cpu6510 } from "./cpu6510";
+
+//#################################################################################
+//#
+//#     INTERFACES
+//#
+//#################################################################################
+
+/**
+ * # Bus Sample
+ * 
+ * The levels of the bus and control lines at the end of *one* clock cycle, where the interrupt and control lines are
+ * told as active or not, like {@link cpu6510.pins}.
+ */
+export interface BusSample {
+    cycle: number;
+    address: word;
+    data: byte;
+    readWrite: boolean;
+    interruptRequest: boolean;
+    nonMaskableInterrupt: boolean;
+    ready: boolean;
+}
+
+/**
+ * # Waveform Options
+ */
+export interface WaveformOptions {
+    /**
+     * The length of *one* clock cycle in nanoseconds, where the PAL C64 runs at about *985* kHz.
+     */
+    period: number;
+
+    /**
+     * The name of the module the signals are in.
+     */
+    scope: string;
+}
+
+//#################################################################################
+//#
+//#     CONSTANTS
+//#
+//#################################################################################
+
+const OPTIONS_DEFUALT: WaveformOptions = {
+    period: 1015,
+    scope: 'cpu6510',
+};
+
+const SIGNALS: { id: string, name: string, width: number, value: (sample: BusSample) => number }[] = [
+    { id: '!', name: 'AB', width: 16, value: (sample) => sample.address },
+    { id: '"', name: 'DB', width: 8, value: (sample) => sample.data },
+    { id: '#', name: 'RW', width: 1, value: (sample) => sample.readWrite? 1 : 0 },
+    { id: '%', name: 'IRQ', width: 1, value: (sample) => sample.interruptRequest? 0 : 1 },
+    { id: '&', name: 'NMI', width: 1, value: (sample) => sample.nonMaskableInterrupt? 0 : 1 },
+    { id: '\'', name: 'RDY', width: 1, value: (sample) => sample.ready? 1 : 0 },
+];
+
+const LINE_END = '\n';
+
+//#################################################################################
+//#
+//#     CLASSES
+//#
+//#################################################################################
+
+/**
+ * # Bus Trace
+ * 
+ * Records a {@link BusSample} for every clock cycle a {@link cpu6510} runs, which {@link formatWaveform} can export to
+ * be viewed in a waveform viewer.
+ * 
+ * A sample is kept for every clock cycle until {@link clear} is called, so long runs should be recorded in parts.
+ */
+export class BusTrace {
+    protected cpu: cpu6510;
+    protected previous?: () => void;
+    protected isAttached: boolean = false;
+    protected recorded: BusSample[] = [];
+
+    constructor(cpu: cpu6510) {
+        this.cpu = cpu;
+    }
+
+    /**
+     * # Attached
+     * 
+     * Whether clock cycles are being recorded.
+     */
+    public get attached(): boolean { return this.isAttached; }
+
+    /**
+     * # Samples
+     * 
+     * The samples recorded, the first clock cycle first.
+     */
+    public get samples(): ReadonlyArray<Readonly<BusSample>> { return this.recorded; }
+
+    /**
+     * # Attach
+     * 
+     * Starts recording clock cycles through {@link cpu6510.onCycle}, still calling the handler that was set.
+     */
+    public attach(): void {
+        if (this.isAttached) return;
+
+        this.previous = this.cpu.onCycle;
+        this.cpu.onCycle = () => {
+            if (this.previous) this.previous();
+            this.recorded.push(this.capture());
+        };
+        this.isAttached = true;
+    }
+
+    /**
+     * # Detach
+     * 
+     * Stops recording clock cycles, restoring the handler of {@link cpu6510.onCycle} that was set when attaching.
+     */
+    public detach(): void {
+        if (!this.isAttached) return;
+
+        this.cpu.onCycle = this.previous;
+        this.previous = undefined;
+        this.isAttached = false;
+    }
+
+    /**
+     * # Clear
+     * 
+     * Removes every sample recorded.
+     */
+    public clear(): void {
+        this.recorded = [];
+    }
+
+    /**
+     * # Capture
+     * 
+     * Used to capture the levels of the pins at the end of the clock cycle.
+     */
+    protected capture(): BusSample {
+        let pins = this.cpu.pins;
+
+        return {
+            cycle: this.cpu.cycles,
+            address: pins.addressBus,
+            data: pins.dataBus,
+            readWrite: pins.readWrite,
+            interruptRequest: pins.interruptRequest,
+            nonMaskableInterrupt: pins.nonMaskableInterrupt,
+            ready: pins.ready,
+        };
+    }
+}
+
+//#################################################################################
+//#
+//#     PUBLIC FUNCTIONS
+//#
+//#################################################################################
+
+/**
+ * # Format Waveform
+ * 
+ * Formats the samples as a value change dump, the `.vcd` files read by waveform viewers like GTKWave.
+ * 
+ * Each sample lasts *one* period, timed by its clock cycle counted from the *first* sample at time *zero*, so samples
+ * recorded in parts keep the clock cycles between them, where the time is in nanoseconds.
+ * The signals are told by their electric level:
+ * 
+ * | Signal | Width | Level |
+ * |:------:|:-----:|:------|
+ * | AB     | 16    | The address bus. |
+ * | DB     | 8     | The data bus. |
+ * | RW     | 1     | High while reading, low while writing. |
+ * | IRQ    | 1     | Low while active. |
+ * | NMI    | 1     | Low while active. |
+ * | RDY    | 1     | High while active. |
+ */
+export function formatWaveform(samples: ReadonlyArray<Readonly<BusSample>>, options: Partial<WaveformOptions> = {}): string {
+    let settings: WaveformOptions = { ...OPTIONS_DEFUALT, ...options };
+    let lines: string[] = [
+        '$version libslm-c64 $end',
+        '$timescale 1ns $end',
+        '$scope module ' + settings.scope + ' $end',
+    ];
+
+    for (let signal of SIGNALS) {
+        let range = signal.width > 1? ' [' + (signal.width - 1) + ':0]' : '';
+        lines.push('$var wire ' + signal.width + ' ' + signal.id + ' ' + signal.name + range + ' $end');
+    }
+
+    lines.push('$upscope $end', '$enddefinitions $end');
+
+    let values: number[] = [];
+    samples.forEach((sample, index) => {
+        let changes: string[] = [];
+
+        SIGNALS.forEach((signal, signalIndex) => {
+            let value = signal.value(sample);
+            if (index !== 0 && values[signalIndex] === value) return;
+
+            values[signalIndex] = value;
+            changes.push(formatValue(value, signal.width) + (signal.width > 1? ' ' : '') + signal.id);
+        });
+
+        if (changes.length === 0) return;
+
+        lines.push('#' + (sample.cycle - samples[0].cycle) * settings.period);
+        if (index === 0) lines.push('$dumpvars', ...changes, '$end');
+        else lines.push(...changes);
+    });
+
+    if (samples.length !== 0) lines.push('#' + (samples[samples.length - 1].cycle - samples[0].cycle + 1) * settings.period);
+
+    return lines.join(LINE_END) + LINE_END;
+}
+
+//#################################################################################
+//#
+//#     PRIVATE FUNCTIONS
+//#
+//#################################################################################
+
+function formatValue(value: number, width: number): string {
+    if (width === 1) return value? '1' : '0';
+
+    let bits = value.toString(2);
+    while (bits.length < width) bits = '0' + bits;
+    return 'b' + bits;
+}
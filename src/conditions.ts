@@ -0,0 +1,254 @@
+//#################################################################################
+//#     Title:  Conditions 6510
+//#     Author: Delta Thiesen <delta.thiesen.1990@gmail.com>
+//#################################################################################
+
+//#################################################################################
+//#
+//#     IMPORTS
+//#
+//#################################################################################
+
+import { byte, word } from "@hulle107/libslm-binary";
+import { Flags, Registers } from "./cpu6510";
+
+//#################################################################################
+//#
+//#     TYPES
+//#
+//#################################################################################
+
+export type ExpressionFunction = (context: ConditionContext) => number;
+
+type BinaryOperator = '||' | '&&' | '|' | '^' | '&' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-' | '*' | '/';
+
+//#################################################################################
+//#
+//#     INTERFACES
+//#
+//#################################################################################
+
+/**
+ * # Condition Context
+ * 
+ * What a condition can read, which {@link cpu6510} provides, where {@link peek} must not have side effects, since a
+ * condition is evaluated while the processor runs.
+ */
+export interface ConditionContext {
+    readonly registers: Readonly<Registers>;
+    readonly flags: Readonly<Flags>;
+    readonly cycles: number;
+    readonly instructions: number;
+    peek(address: word): byte;
+}
+
+/**
+ * # Condition
+ * 
+ * A compiled condition, where {@link evaluate} tells whether it holds.
+ */
+export interface Condition {
+    source: string;
+    evaluate(context: ConditionContext): boolean;
+}
+
+//#################################################################################
+//#
+//#     CLASSES
+//#
+//#################################################################################
+
+/**
+ * # Condition Error
+ * 
+ * Thrown by {@link compileCondition}, telling the position in the source the error was found at.
+ */
+export class ConditionError extends Error {
+    public readonly position: number;
+
+    constructor(message: string, position: number) {
+        super(message + ' at position ' + position);
+        this.name = 'ConditionError';
+        this.position = position;
+    }
+}
+
+//#################################################################################
+//#
+//#     CONSTANTS
+//#
+//#################################################################################
+
+const PRECEDENCE: BinaryOperator[][] = [
+    ['||'],
+    ['&&'],
+    ['|'],
+    ['^'],
+    ['&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/'],
+];
+
+const VALUES: Record<string, ExpressionFunction> = {
+    A: (context) => context.registers.accumulator,
+    X: (context) => context.registers.indexX,
+    Y: (context) => context.registers.indexY,
+    SP: (context) => context.registers.stackPointer,
+    PC: (context) => context.registers.programCounter,
+    P: (context) => context.registers.statusRegister,
+    N: (context) => context.flags.negative,
+    V: (context) => context.flags.overflow,
+    B: (context) => context.flags.break,
+    D: (context) => context.flags.decimal,
+    I: (context) => context.flags.interrupt,
+    Z: (context) => context.flags.zero,
+    C: (context) => context.flags.carry,
+    CYCLES: (context) => context.cycles,
+    INSTRUCTIONS: (context) => context.instructions,
+};
+
+const TOKEN = /\s*(\$[0-9A-Fa-f]+|%[01]+|[0-9]+|[A-Za-z_][A-Za-z0-9_]*|\|\||&&|==|!=|<=|>=|[|^&<>+\-*\/!~@()])/y;
+
+//#################################################################################
+//#
+//#     PUBLIC FUNCTIONS
+//#
+//#################################################################################
+
+/**
+ * # Compile Condition
+ * 
+ * Compiles a condition like `A == $20 && X > 3 && @$D012 == $80 && cycles > 100000` by recursive descent into
+ * functions, so no JavaScript is evaluated.
+ * 
+ * A condition can read the registers `A`, `X`, `Y`, `SP`, `PC` and `P`, the flags `N`, `V`, `B`, `D`, `I`, `Z` and `C`,
+ * the counters `cycles` and `instructions` and memory with `@address`, where names are not case sensitive.
+ * 
+ * Numbers are written as `$FF`, `%1010` or `255`, and the operators are those of JavaScript, without assignment, where
+ * comparisons give *one* or *zero* and division rounds down, giving *zero* when dividing by *zero*.
+ * 
+ * Memory is read through {@link ConditionContext.peek}, which for a {@link cpu6510} reads I/O registers without side
+ * effects only when its memory has {@link MemoryLike.peek}.
+ */
+export function compileCondition(source: string): Condition {
+    let tokens = tokenize(source);
+    let position = 0;
+
+    let peek = () => position < tokens.length? tokens[position].text : undefined;
+    let next = () => tokens[position++];
+    let fail = (message: string): never => {
+        throw new ConditionError(message, position < tokens.length? tokens[position].position : source.length);
+    };
+
+    let primary = (): ExpressionFunction => {
+        if (position >= tokens.length) return fail('Unexpected end of condition');
+
+        let token = next().text;
+        if (token === '(') {
+            let inner = binary(0);
+            if (peek() !== ')') return fail('Missing ")"');
+            next();
+            return inner;
+        }
+
+        let value = parseNumber(token);
+        if (value !== undefined) return () => value!;
+
+        let name = VALUES[token.toUpperCase()];
+        if (name) return name;
+
+        position--;
+        return fail('Unexpected "' + token + '"');
+    };
+
+    let unary = (): ExpressionFunction => {
+        let token = peek();
+        if (token === '!' || token === '-' || token === '~' || token === '@') {
+            next();
+            let operand = unary();
+            switch (token) {
+                case '!': return (context) => operand(context)? 0 : 1;
+                case '-': return (context) => -operand(context);
+                case '~': return (context) => ~operand(context);
+                default: return (context) => context.peek(word(operand(context)));
+            }
+        }
+        return primary();
+    };
+
+    let binary = (level: number): ExpressionFunction => {
+        if (level === PRECEDENCE.length) return unary();
+
+        let left = binary(level + 1);
+        while (PRECEDENCE[level].indexOf(peek() as BinaryOperator) !== -1) {
+            let operator = next().text as BinaryOperator;
+            left = combine(operator, left, binary(level + 1));
+        }
+        return left;
+    };
+
+    let root = binary(0);
+    if (position !== tokens.length) fail('Unexpected "' + peek() + '"');
+
+    return {
+        source: source,
+        evaluate: (context) => root(context) !== 0,
+    };
+}
+
+//#################################################################################
+//#
+//#     PRIVATE FUNCTIONS
+//#
+//#################################################################################
+
+function combine(operator: BinaryOperator, left: ExpressionFunction, right: ExpressionFunction): ExpressionFunction {
+    switch (operator) {
+        case '||': return (context) => left(context) || right(context)? 1 : 0;
+        case '&&': return (context) => left(context) && right(context)? 1 : 0;
+        case '|': return (context) => left(context) | right(context);
+        case '^': return (context) => left(context) ^ right(context);
+        case '&': return (context) => left(context) & right(context);
+        case '==': return (context) => left(context) === right(context)? 1 : 0;
+        case '!=': return (context) => left(context) !== right(context)? 1 : 0;
+        case '<': return (context) => left(context) < right(context)? 1 : 0;
+        case '<=': return (context) => left(context) <= right(context)? 1 : 0;
+        case '>': return (context) => left(context) > right(context)? 1 : 0;
+        case '>=': return (context) => left(context) >= right(context)? 1 : 0;
+        case '+': return (context) => left(context) + right(context);
+        case '-': return (context) => left(context) - right(context);
+        case '*': return (context) => left(context) * right(context);
+        case '/': return (context) => {
+            let divisor = right(context);
+            return divisor === 0? 0 : Math.floor(left(context) / divisor);
+        };
+    }
+}
+
+function tokenize(source: string): { text: string, position: number }[] {
+    let tokens: { text: string, position: number }[] = [];
+    let index = 0;
+
+    while (source.slice(index).trim() !== '') {
+        TOKEN.lastIndex = index;
+        let match = TOKEN.exec(source);
+        if (!match) {
+            let position = source.length - source.slice(index).replace(/^\s+/, '').length;
+            throw new ConditionError('Unexpected "' + source[position] + '"', position);
+        }
+
+        tokens.push({ text: match[1], position: match.index + match[0].length - match[1].length });
+        index = TOKEN.lastIndex;
+    }
+
+    return tokens;
+}
+
+function parseNumber(token: string): number | undefined {
+    if (token[0] === '$') return parseInt(token.slice(1), 16);
+    if (token[0] === '%') return parseInt(token.slice(1), 2);
+    if (/^[0-9]/.test(token)) return parseInt(token, 10);
+    return undefined;
+}
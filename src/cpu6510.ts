@@ -19,6 +19,8 @@
 
 import { bit, byte, word } from "@hulle107/libslm-binary";
 import { foregroundColor, ForegroundColor, format, Formatting } from "./output";
+import { OPCODES } from "./opcodes";
+import { BreakpointHit, BreakpointManager } from "./breakpoints";
 
 //#################################################################################
 //#
@@ -29,6 +31,9 @@ import { foregroundColor, ForegroundColor, format, Formatting } from "./output";
 export type OperationFunction = () => void;
 export type AddressingFunction = () => void;
 export type SequenceFunction = OperationFunction | AddressingFunction;
+export type ConditionFunction = (cpu: cpu6510) => boolean;
+export type SequenceRoutine = 'reset' | 'interrupt' | 'addressing' | 'operation' | 'index' | 'branch' | 'branchPageCrossing';
+export type StopReason = 'instruction' | 'cycles' | 'condition' | 'limit' | 'jammed' | 'breakpoint';
 
 //#################################################################################
 //#
@@ -39,6 +44,184 @@ export type SequenceFunction = OperationFunction | AddressingFunction;
 export interface MemoryLike {
     read: (address: word) => byte;
     write: (address: word, data: byte) => void;
+
+    /**
+     * Reads the byte at the address without side effects, like clearing the interrupt flags of the CIA or VIC, used
+     * by {@link cpu6510.peek} when given.
+     */
+    peek?: (address: word) => byte;
+}
+
+/**
+ * # Unstable Configuration
+ * 
+ * Used to select how the unstable illegal operations behave, since they differ between chip revisions and even
+ * between individual chips.
+ */
+export interface UnstableConfiguration {
+    /**
+     * Magic constant *OR*'ed with the **accumulator** by {@link cpu6510.ANE}, commonly *$EE*, *$EF*, *$FE* or *$FF*.
+     */
+    magicANE: byte;
+
+    /**
+     * Magic constant *OR*'ed with the **accumulator** by {@link cpu6510.LXA}, commonly *$EE*, *$FF* or *$00*.
+     */
+    magicLXA: byte;
+
+    /**
+     * When a page is crossed, {@link cpu6510.SHA}, {@link cpu6510.SHX}, {@link cpu6510.SHY} and {@link cpu6510.TAS}
+     * replaces the high order *eight* bits of the effective address with the stored value.
+     */
+    pageCrossingGlitch: boolean;
+
+    /**
+     * The *AND* with the high order *eight* bits of the address plus *one* is dropped by {@link cpu6510.SHA},
+     * {@link cpu6510.SHX}, {@link cpu6510.SHY} and {@link cpu6510.TAS}, as happens when RDY is pulled during the instruction.
+     */
+    dropHighByteAnd: boolean;
+}
+
+/**
+ * # Registers
+ * 
+ * The register file of the processor, as read by {@link cpu6510.registers} and written by
+ * {@link cpu6510.setRegisters}.
+ */
+export interface Registers {
+    programCounter: word;
+    statusRegister: byte;
+    stackPointer: byte;
+    accumulator: byte;
+    indexX: byte;
+    indexY: byte;
+}
+
+/**
+ * # Flags
+ * 
+ * The flags of the **processor status**, as read by {@link cpu6510.flags} and written by {@link cpu6510.setFlags}.
+ */
+export interface Flags {
+    negative: bit;
+    overflow: bit;
+    break: bit;
+    decimal: bit;
+    interrupt: bit;
+    zero: bit;
+    carry: bit;
+}
+
+/**
+ * # Pins
+ * 
+ * The levels of the pins, as read by {@link cpu6510.pins}, where the interrupt and control lines are told as active or
+ * not, rather than by their electric level.
+ */
+export interface Pins {
+    addressBus: word;
+    dataBus: byte;
+    readWrite: boolean;
+    interruptRequest: boolean;
+    nonMaskableInterrupt: boolean;
+    ready: boolean;
+    addressEnableControl: boolean;
+    portInput: byte;
+}
+
+/**
+ * # Sequence State
+ * 
+ * A clock cycle waiting in the sequences, told by the routine that added it, the arguments the routine was called with
+ * and its place among the clock cycles the routine added, which is enough to add it again when restoring a state.
+ */
+export interface SequenceState {
+    routine: SequenceRoutine;
+    args: number[];
+    cycle: number;
+}
+
+/**
+ * # Processor State
+ * 
+ * Everything needed to resume the processor from any clock cycle, even within an instruction, as returned by
+ * {@link cpu6510.getState} and restored by {@link cpu6510.setState}, which can round-trip through JSON.
+ */
+export interface ProcessorState {
+    registers: Registers;
+
+    /**
+     * The registers of the on-chip I/O port at *$00* and *$01*.
+     */
+    port: {
+        dataDirectionRegister: byte;
+        portDataRegister: byte;
+    };
+
+    /**
+     * The internals kept between clock cycles.
+     */
+    internals: {
+        internalInstruction: byte;
+        internalAddressData: word;
+        internalDataBus: byte;
+        nonMaskableInterrupt: boolean;
+        interrupt: boolean;
+        portFallOff6: number;
+        portFallOff7: number;
+        halted: boolean;
+        stalled: boolean;
+        jammed: boolean;
+        instruction: boolean;
+    };
+
+    /**
+     * The levels of the pins.
+     */
+    pins: Pins;
+
+    counters: {
+        cycles: number;
+        instructions: number;
+    };
+
+    /**
+     * The clock cycles waiting in the sequences, the next one first.
+     */
+    sequences: SequenceState[];
+}
+
+/**
+ * # Run Summary
+ * 
+ * Returned by {@link cpu6510.stepInstruction}, {@link cpu6510.runCycles} and {@link cpu6510.runUntil} to tell what
+ * was run and why it stopped.
+ */
+export interface RunSummary {
+    /**
+     * The number of clock cycles run.
+     */
+    cycles: number;
+
+    /**
+     * The number of instructions completed, where interrupts and the reset sequence are not counted.
+     */
+    instructions: number;
+
+    /**
+     * Why the run stopped, where *limit* means the cycle limit was reached before anything else.
+     */
+    reason: StopReason;
+
+    /**
+     * The **program counter** when the run stopped.
+     */
+    programCounter: word;
+
+    /**
+     * The breakpoint that stopped the run, when the *reason* is *breakpoint*.
+     */
+    breakpoint?: BreakpointHit;
 }
 
 //#################################################################################
@@ -48,7 +231,7 @@ export interface MemoryLike {
 //#################################################################################
 
 const CLASSNAME_DEFAULT = 'CPU6510';
-const PROGRAM_COUNTER_DEFUALT = word(0xFFFC);
+const PROGRAM_COUNTER_DEFUALT = word(0);
 const STATUS_REGISTER_DEFUALT = byte(0b00000100);
 const STACK_POINTER_DEFUALT = byte(0);
 const ACCUMULATOR_DEFUALT = byte(0);
@@ -56,10 +239,49 @@ const X_REGISTER_DEFUALT = byte(0);
 const Y_REGISTER_DEFUALT = byte(0);
 const INSTRUCTION_REGISTER_DEFUALT = byte(0);
 const INTERNAL_ADDRESS_DATA_DEFUALT = word(0);
+const DATA_DIRECTION_REGISTER_DEFUALT = byte(0);
+const PORT_DATA_REGISTER_DEFUALT = byte(0);
+const PORT_INPUT_DEFUALT = byte(0b00010111);
 
 const ADDRESS_BUS_BUFFER_DEFUALT = word(0);
 const DATA_BUS_BUFFER_DEFUALT = byte(0);
 
+const UNSTABLE_DEFUALT: UnstableConfiguration = {
+    magicANE: byte(0xEF),
+    magicLXA: byte(0xEE),
+    pageCrossingGlitch: true,
+    dropHighByteAnd: false,
+};
+
+const PORT_DATA_DIRECTION_ADDRESS = word(0x0000);
+const PORT_DATA_ADDRESS = word(0x0001);
+const PORT_FALL_OFF_CYCLES = 350000;
+const CYCLE_LIMIT_DEFUALT = 1000000;
+
+const STACK_PAGE = word(0x0100);
+const RESET_VECTOR = word(0xFFFC);
+const INTERRUPT_REQUEST_VECTOR = word(0xFFFE);
+const NON_MASKABLE_INTERRUPT_VECTOR = word(0xFFFA);
+
+//#################################################################################
+//#
+//#     CLASSES
+//#
+//#################################################################################
+
+/**
+ * # State Error
+ * 
+ * Thrown by {@link cpu6510.getState} and {@link cpu6510.setState} when the sequences in progress can not be captured
+ * or restored.
+ */
+export class StateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StateError';
+    }
+}
+
 export class cpu6510 {
     //#################################################################################
     //#
@@ -67,11 +289,13 @@ export class cpu6510 {
     //#
     //#################################################################################
 
-    constructor(memory: MemoryLike, debug: boolean = false) {
+    constructor(memory: MemoryLike, debug: boolean = false, unstable: Partial<UnstableConfiguration> = {}) {
         this.debug = debug;
         this.memory = memory;
+        this.unstable = { ...UNSTABLE_DEFUALT, ...unstable };
         this.logCall('Constructor');
         this.defaultState();
+        this.resetSequence();
         this.log('Done');
     }
 
@@ -92,6 +316,8 @@ export class cpu6510 {
     private AC:  byte = 0;
     private XR:  byte = 0;
     private YR:  byte = 0;
+    private DDR: byte = 0;
+    private PDR: byte = 0;
 
     //---------------------------------------------------------------------------------
     //      Compination Registers
@@ -111,6 +337,12 @@ export class cpu6510 {
     private I_ADL: byte = 0;
     private I_ADH: byte = 0;
     private I_DB:  byte = 0;
+    private I_NMI: boolean = false;
+    private I_INT: boolean = false;
+    private I_P6: number = 0;
+    private I_P7: number = 0;
+    private I_HLT: boolean = false;
+    private I_STL: boolean = false;
 
     //---------------------------------------------------------------------------------
     //      Compination Internals
@@ -127,8 +359,14 @@ export class cpu6510 {
     //---------------------------------------------------------------------------------
 
     private IO_DB:  byte = 0;
+    private IO_RW:  boolean = true;
     private IO_ABL: byte = 0;
     private IO_ABH: byte = 0;
+    private IO_IRQ: boolean = false;
+    private IO_NMI: boolean = false;
+    private IO_P:   byte = PORT_INPUT_DEFUALT;
+    private IO_RDY: boolean = true;
+    private IO_AEC: boolean = true;
 
     //---------------------------------------------------------------------------------
     //      Compination Pins
@@ -140,6 +378,13 @@ export class cpu6510 {
         this.IO_ABH = byte(data >> byte.size);
     }
 
+    //---------------------------------------------------------------------------------
+    //      Counters
+    //---------------------------------------------------------------------------------
+
+    private CYC: number = 0;
+    private INS: number = 0;
+
     //#################################################################################
     //#
     //#     PROTECTED VARIABLES
@@ -152,6 +397,45 @@ export class cpu6510 {
 
     protected sequences: SequenceFunction[] = [];
 
+    /**
+     * # Is Jammed
+     * 
+     * Used in this emulation of the processor to know when a {@link JAM} operation has locked up the processor.
+     */
+    protected isJammed: boolean = false;
+
+    /**
+     * # Is Instruction
+     * 
+     * Used in this emulation of the processor to know when the sequences in progress belongs to an instruction, and not
+     * to the reset sequence or an interrupt.
+     */
+    protected isInstruction: boolean = false;
+
+    /**
+     * # Is Replaying
+     * 
+     * Used in this emulation of the processor to know when a routine is called again to restore its sequences, so
+     * it does not access memory.
+     */
+    protected isReplaying: boolean = false;
+
+    /**
+     * # Is Holding
+     * 
+     * Used in this emulation of the processor to know when a read cycle halted by the **ready** line is run only to
+     * latch its address, so no breakpoints are checked and no events are called.
+     */
+    protected isHolding: boolean = false;
+
+    /**
+     * # Breakpoint Hit
+     * 
+     * Used in this emulation of the processor to know which breakpoint fired in the current clock cycle, where only the
+     * *first* one is kept.
+     */
+    protected breakpointHit?: BreakpointHit;
+
     //---------------------------------------------------------------------------------
     //      Collections
     //---------------------------------------------------------------------------------
@@ -164,42 +448,10 @@ export class cpu6510 {
      * Used in this emulation of the processor to have a easy lookup table for operations, where
      * the real processor would have hardwired logic, this emulation needs a way to know what
      * operations to take.
+     * 
+     * Derived from {@link OPCODES}.
      */
-    protected operations: Record<byte, OperationFunction> = {
-        0x00: this.BRK, 0x01: this.ORA, 0x02: this.JAM, 0x03: this.SLO, 0x04: this.NOP, 0x05: this.ORA, 0x06: this.ASL, 0x07: this.SLO,
-        0x10: this.BPL, 0x11: this.ORA, 0x12: this.JAM, 0x13: this.SLO, 0x14: this.NOP, 0x15: this.ORA, 0x16: this.ASL, 0x17: this.SLO,
-        0x20: this.JSR, 0x21: this.AND, 0x22: this.JAM, 0x23: this.RLA, 0x24: this.BIT, 0x25: this.AND, 0x26: this.ROL, 0x27: this.RLA,
-        0x30: this.BMI, 0x31: this.AND, 0x32: this.JAM, 0x33: this.RLA, 0x34: this.NOP, 0x35: this.AND, 0x36: this.ROL, 0x37: this.RLA,
-        0x40: this.RTI, 0x41: this.EOR, 0x42: this.JAM, 0x43: this.SRE, 0x44: this.NOP, 0x45: this.EOR, 0x46: this.LSR, 0x47: this.SRE,
-        0x50: this.BVC, 0x51: this.EOR, 0x52: this.JAM, 0x53: this.SRE, 0x54: this.NOP, 0x55: this.EOR, 0x56: this.LSR, 0x57: this.SRE,
-        0x60: this.RTS, 0x61: this.ADC, 0x62: this.JAM, 0x63: this.RRA, 0x64: this.NOP, 0x65: this.ADC, 0x66: this.ROR, 0x67: this.RRA,
-        0x70: this.BVS, 0x71: this.ADC, 0x72: this.JAM, 0x73: this.RRA, 0x74: this.NOP, 0x75: this.ADC, 0x76: this.ROR, 0x77: this.RRA,
-        0x80: this.NOP, 0x81: this.STA, 0x82: this.NOP, 0x83: this.SAX, 0x84: this.STY, 0x85: this.STA, 0x86: this.STX, 0x87: this.SAX,
-        0x90: this.BCC, 0x91: this.STA, 0x92: this.JAM, 0x93: this.SHA, 0x94: this.STY, 0x95: this.STA, 0x96: this.STX, 0x97: this.SAX,
-        0xA0: this.LDY, 0xA1: this.LDA, 0xA2: this.LDX, 0xA3: this.LAX, 0xA4: this.LDY, 0xA5: this.LDA, 0xA6: this.LDX, 0xA7: this.LAX,
-        0xB0: this.BCS, 0xB1: this.LDA, 0xB2: this.JAM, 0xB3: this.LAX, 0xB4: this.LDY, 0xB5: this.LDA, 0xB6: this.LDX, 0xB7: this.LAX,
-        0xC0: this.CPY, 0xC1: this.CMP, 0xC2: this.NOP, 0xC3: this.DCP, 0xC4: this.CPY, 0xC5: this.CMP, 0xC6: this.DEC, 0xC7: this.DCP,
-        0xD0: this.BNE, 0xD1: this.CMP, 0xD2: this.JAM, 0xD3: this.DCP, 0xD4: this.NOP, 0xD5: this.CMP, 0xD6: this.DEC, 0xD7: this.DCP,
-        0xE0: this.CPX, 0xE1: this.SBC, 0xE2: this.NOP, 0xE3: this.ISB, 0xE4: this.CPX, 0xE5: this.SBC, 0xE6: this.INC, 0xE7: this.ISB,
-        0xF0: this.BEQ, 0xF1: this.SBC, 0xF2: this.JAM, 0xF3: this.ISB, 0xF4: this.NOP, 0xF5: this.SBC, 0xF6: this.INC, 0xF7: this.ISB,
-
-        0x08: this.PHP, 0x09: this.ORA, 0x0A: this.ASL, 0x0B: this.ANS, 0x0C: this.NOP, 0x0D: this.ORA, 0x0E: this.ASL, 0x0F: this.SLO,
-        0x18: this.CLC, 0x19: this.ORA, 0x1A: this.NOP, 0x1B: this.SLO, 0x1C: this.NOP, 0x1D: this.ORA, 0x1E: this.ASL, 0x1F: this.SLO,
-        0x28: this.PLP, 0x29: this.AND, 0x2A: this.ROL, 0x2B: this.ANR, 0x2C: this.BIT, 0x2D: this.AND, 0x2E: this.ROL, 0x2F: this.RLA,
-        0x38: this.SEC, 0x39: this.AND, 0x3A: this.NOP, 0x3B: this.RLA, 0x3C: this.NOP, 0x3D: this.AND, 0x3E: this.ROL, 0x3F: this.RLA,
-        0x48: this.PHA, 0x49: this.EOR, 0x4A: this.LSR, 0x4B: this.ASR, 0x4C: this.JMP, 0x4D: this.EOR, 0x4E: this.LSR, 0x4F: this.SRE,
-        0x58: this.CLI, 0x59: this.EOR, 0x5A: this.NOP, 0x5B: this.SRE, 0x5C: this.NOP, 0x5D: this.EOR, 0x5E: this.LSR, 0x5F: this.SRE,
-        0x68: this.PLA, 0x69: this.ADC, 0x6A: this.ROR, 0x6B: this.ARR, 0x6C: this.JMP, 0x6D: this.ADC, 0x6E: this.ROR, 0x6F: this.RRA,
-        0x78: this.SEI, 0x79: this.ADC, 0x7A: this.NOP, 0x7B: this.RRA, 0x7C: this.NOP, 0x7D: this.ADC, 0x7E: this.ROR, 0x7F: this.RRA,
-        0x88: this.DEY, 0x89: this.NOP, 0x8A: this.TXA, 0x8B: this.ANE, 0x8C: this.STY, 0x8D: this.STA, 0x8E: this.STX, 0x8F: this.SAX,
-        0x98: this.TYA, 0x99: this.STA, 0x9A: this.TXS, 0x9B: this.TAS, 0x9C: this.SHY, 0x9D: this.STA, 0x9E: this.SHX, 0x9F: this.SHA,
-        0xA8: this.TAY, 0xA9: this.LDA, 0xAA: this.TAX, 0xAB: this.LXA, 0xAC: this.LDY, 0xAD: this.LDA, 0xAE: this.LDX, 0xAF: this.LAX,
-        0xB8: this.CLV, 0xB9: this.LDA, 0xBA: this.TSX, 0xBB: this.LEA, 0xBC: this.LDY, 0xBD: this.LDA, 0xBE: this.LDX, 0xBF: this.LAX,
-        0xC8: this.INY, 0xC9: this.CMP, 0xCA: this.DEX, 0xCB: this.SBX, 0xCC: this.CPY, 0xCD: this.CMP, 0xCE: this.DEC, 0xCF: this.DCP,
-        0xD8: this.CLD, 0xD9: this.CMP, 0xDA: this.NOP, 0xDB: this.DCP, 0xDC: this.NOP, 0xDD: this.CMP, 0xDE: this.DEC, 0xDF: this.DCP,
-        0xE8: this.INX, 0xE9: this.SBC, 0xEA: this.NOP, 0xEB: this.USB, 0xEC: this.CPX, 0xED: this.SBC, 0xEE: this.INC, 0xEF: this.ISB,
-        0xF8: this.SED, 0xF9: this.SBC, 0xFA: this.NOP, 0xFB: this.ISB, 0xFC: this.NOP, 0xFD: this.SBC, 0xFE: this.INC, 0xFF: this.ISB,
-    };
+    protected operations: Record<byte, OperationFunction> = OPCODES.map((opcode) => this[opcode.operation]);
 
     /**
      * # Addressing Table
@@ -209,41 +461,47 @@ export class cpu6510 {
      * Used in this emulation of the processor to have a easy lookup table for how to perform addressing, 
      * where the real processor would have hardwired logic, this emulation needs a way to know what
      * addressing to take.
+     * 
+     * Derived from {@link OPCODES}.
      */
-    protected addressings: Record<number, AddressingFunction> = {
-        0x00: this.IMP, 0x01: this.IDX, 0x02: this.IMM, 0x03: this.IDX, 0x04: this.ZPG, 0x05: this.ZPG, 0x06: this.ZPG, 0x07: this.ZPG,
-        0x10: this.REL, 0x11: this.IDY, 0x12: this.IMM, 0x13: this.IDY, 0x14: this.ZPX, 0x15: this.ZPX, 0x16: this.ZPX, 0x17: this.ZPX,
-        0x20: this.ABS, 0x21: this.IDX, 0x22: this.IMM, 0x23: this.IDX, 0x24: this.ZPG, 0x25: this.ZPG, 0x26: this.ZPG, 0x27: this.ZPG,
-        0x30: this.REL, 0x31: this.IDY, 0x32: this.IMM, 0x33: this.IDY, 0x34: this.ZPX, 0x35: this.ZPX, 0x36: this.ZPX, 0x37: this.ZPX,
-        0x40: this.IMP, 0x41: this.IDX, 0x42: this.IMM, 0x43: this.IDX, 0x44: this.ZPG, 0x45: this.ZPG, 0x46: this.ZPG, 0x47: this.ZPG,
-        0x50: this.REL, 0x51: this.IDY, 0x52: this.IMM, 0x53: this.IDY, 0x54: this.ZPX, 0x55: this.ZPX, 0x56: this.ZPX, 0x57: this.ZPX,
-        0x60: this.IMP, 0x61: this.IDX, 0x62: this.IMM, 0x63: this.IDX, 0x64: this.ZPG, 0x65: this.ZPG, 0x66: this.ZPG, 0x67: this.ZPG,
-        0x70: this.REL, 0x71: this.IDY, 0x72: this.IMM, 0x73: this.IDY, 0x74: this.ZPX, 0x75: this.ZPX, 0x76: this.ZPX, 0x77: this.ZPX,
-        0x80: this.IMM, 0x81: this.IDX, 0x82: this.IMM, 0x83: this.IDX, 0x84: this.ZPG, 0x85: this.ZPG, 0x86: this.ZPG, 0x87: this.ZPG,
-        0x90: this.REL, 0x91: this.IDY, 0x92: this.IMM, 0x93: this.IDY, 0x94: this.ZPX, 0x95: this.ZPX, 0x96: this.ZPY, 0x97: this.ZPY,
-        0xA0: this.IMM, 0xA1: this.IDX, 0xA2: this.IMM, 0xA3: this.IDX, 0xA4: this.ZPG, 0xA5: this.ZPG, 0xA6: this.ZPG, 0xA7: this.ZPG,
-        0xB0: this.REL, 0xB1: this.IDY, 0xB2: this.IMM, 0xB3: this.IDY, 0xB4: this.ZPX, 0xB5: this.ZPX, 0xB6: this.ZPY, 0xB7: this.ZPY,
-        0xC0: this.IMM, 0xC1: this.IDX, 0xC2: this.IMM, 0xC3: this.IDX, 0xC4: this.ZPG, 0xC5: this.ZPG, 0xC6: this.ZPG, 0xC7: this.ZPG,
-        0xD0: this.REL, 0xD1: this.IDY, 0xD2: this.IMM, 0xD3: this.IDY, 0xD4: this.ZPX, 0xD5: this.ZPX, 0xD6: this.ZPX, 0xD7: this.ZPX,
-        0xE0: this.IMM, 0xE1: this.IDX, 0xE2: this.IMM, 0xE3: this.IDX, 0xE4: this.ZPG, 0xE5: this.ZPG, 0xE6: this.ZPG, 0xE7: this.ZPG,
-        0xF0: this.REL, 0xF1: this.IDY, 0xF2: this.IMM, 0xF3: this.IDY, 0xF4: this.ZPX, 0xF5: this.ZPX, 0xF6: this.ZPX, 0xF7: this.ZPX,
-
-        0x08: this.IMP, 0x09: this.IMM, 0x0A: this.ACU, 0x0B: this.IMM, 0x0C: this.ABS, 0x0D: this.ABS, 0x0E: this.ABS, 0x0F: this.ABS,
-        0x18: this.IMP, 0x19: this.ABY, 0x1A: this.IMP, 0x1B: this.ABY, 0x1C: this.ABX, 0x1D: this.ABX, 0x1E: this.ABX, 0x1F: this.ABX,
-        0x28: this.IMP, 0x29: this.IMM, 0x2A: this.ACU, 0x2B: this.IMM, 0x2C: this.ABS, 0x2D: this.ABS, 0x2E: this.ABS, 0x2F: this.ABS,
-        0x38: this.IMP, 0x39: this.ABY, 0x3A: this.IMP, 0x3B: this.ABY, 0x3C: this.ABX, 0x3D: this.ABX, 0x3E: this.ABX, 0x3F: this.ABX,
-        0x48: this.IMP, 0x49: this.IMM, 0x4A: this.ACU, 0x4B: this.IMM, 0x4C: this.ABS, 0x4D: this.ABS, 0x4E: this.ABS, 0x4F: this.ABS,
-        0x58: this.IMP, 0x59: this.ABY, 0x5A: this.IMP, 0x5B: this.ABY, 0x5C: this.ABX, 0x5D: this.ABX, 0x5E: this.ABX, 0x5F: this.ABX,
-        0x68: this.IMP, 0x69: this.IMM, 0x6A: this.ACU, 0x6B: this.IMM, 0x6C: this.ABS, 0x6D: this.ABS, 0x6E: this.ABS, 0x6F: this.ABS,
-        0x78: this.IMP, 0x79: this.ABY, 0x7A: this.IMP, 0x7B: this.ABY, 0x7C: this.ABX, 0x7D: this.ABX, 0x7E: this.ABX, 0x7F: this.ABX,
-        0x88: this.IMP, 0x89: this.IMM, 0x8A: this.IMP, 0x8B: this.IMM, 0x8C: this.ABS, 0x8D: this.ABS, 0x8E: this.ABS, 0x8F: this.ABS,
-        0x98: this.IMP, 0x99: this.ABY, 0x9A: this.IMP, 0x9B: this.ABY, 0x9C: this.ABX, 0x9D: this.ABX, 0x9E: this.ABY, 0x9F: this.ABY,
-        0xA8: this.IMP, 0xA9: this.IMM, 0xAA: this.IMP, 0xAB: this.IMM, 0xAC: this.ABS, 0xAD: this.ABS, 0xAE: this.ABS, 0xAF: this.ABS,
-        0xB8: this.IMP, 0xB9: this.ABY, 0xBA: this.IMP, 0xBB: this.ABY, 0xBC: this.ABX, 0xBD: this.ABX, 0xBE: this.ABY, 0xBF: this.ABY,
-        0xC8: this.IMP, 0xC9: this.IMM, 0xCA: this.IMP, 0xCB: this.IMM, 0xCC: this.ABS, 0xCD: this.ABS, 0xCE: this.ABS, 0xCF: this.ABS,
-        0xD8: this.IMP, 0xD9: this.ABY, 0xDA: this.IMP, 0xDB: this.ABY, 0xDC: this.ABX, 0xDD: this.ABX, 0xDE: this.ABX, 0xDF: this.ABX,
-        0xE8: this.IMP, 0xE9: this.IMM, 0xEA: this.IMP, 0xEB: this.IMM, 0xEC: this.ABS, 0xED: this.ABS, 0xEE: this.ABS, 0xEF: this.ABS,
-        0xF8: this.IMP, 0xF9: this.ABY, 0xFA: this.IMP, 0xFB: this.ABY, 0xFC: this.ABX, 0xFD: this.ABX, 0xFE: this.ABX, 0xFF: this.ABX,
+    protected addressings: Record<number, AddressingFunction> = OPCODES.map((opcode) => this[opcode.addressing]);
+
+    /**
+     * # Write Cycle Table
+     * 
+     * ## - Collection
+     * 
+     * Used in this emulation of the processor to know which sequences are write cycles, where the real processor
+     * knows it from the state of its hardwired logic.
+     */
+    protected writeCycles: WeakSet<SequenceFunction> = new WeakSet();
+
+    /**
+     * # Sequence State Table
+     * 
+     * ## - Collection
+     * 
+     * Used in this emulation of the processor to know which routine added a sequence, so the sequences can be saved
+     * and restored.
+     */
+    protected sequenceStates: WeakMap<SequenceFunction, SequenceState> = new WeakMap();
+
+    /**
+     * # Routine Table
+     * 
+     * ## - Collection
+     * 
+     * Used in this emulation of the processor to have a easy lookup table for the routines adding sequences, where
+     * the addressing and operation are looked up from the **internal instruction**.
+     */
+    protected routines: Record<SequenceRoutine, (...args: number[]) => void> = {
+        reset: () => this.resetSequence(),
+        interrupt: (breakFlag) => this.interruptSequence(breakFlag? 1 : 0),
+        addressing: () => this.addressings[this.internalInstruction].call(this),
+        operation: () => this.operations[this.internalInstruction].call(this),
+        index: (pageCrossing) => this.indexSequence(pageCrossing? 1 : 0),
+        branch: (polled) => this.branchSequence(polled? 1 : 0),
+        branchPageCrossing: () => this.branchPageCrossingSequence(),
     };
 
     //---------------------------------------------------------------------------------
@@ -343,6 +601,31 @@ export class cpu6510 {
     protected get indexY(): byte { return byte(this.YR); };
     protected set indexY(data: number) { this.YR = byte(data); this.logAction('Setting', 'Regsiter', 'Index Y', byte(data)); }
 
+    /**
+     * # Data Direction Register
+     * 
+     * ## - Register
+     * 
+     * The on-chip I/O port of the 6510 is configured by the **data direction register** at address *$00*, where a set
+     * bit makes the matching port line an output.
+     * 
+     * @alias DDR
+     */
+    protected get dataDirectionRegister(): byte { return byte(this.DDR); }
+    protected set dataDirectionRegister(data: number) { this.DDR = byte(data); this.logAction('Setting', 'Register', 'Data Direction', byte(data)); }
+
+    /**
+     * # Port Data Register
+     * 
+     * ## - Register
+     * 
+     * The on-chip I/O port of the 6510 drives its output lines from the **port data register** at address *$01*.
+     * 
+     * @alias PDR
+     */
+    protected get portDataRegister(): byte { return byte(this.PDR); }
+    protected set portDataRegister(data: number) { this.PDR = byte(data); this.logAction('Setting', 'Register', 'Port Data', byte(data)); }
+
     //---------------------------------------------------------------------------------
     //      Flags
     //---------------------------------------------------------------------------------
@@ -454,6 +737,14 @@ export class cpu6510 {
      */
     public debug: boolean;
 
+    /**
+     * # Breakpoints
+     * 
+     * The breakpoints checked while the processor runs, where a breakpoint firing stops {@link stepInstruction},
+     * {@link runCycles} and {@link runUntil} after the clock cycle it fired in.
+     */
+    public breakpoints: BreakpointManager = new BreakpointManager(this);
+
     //---------------------------------------------------------------------------------
     //      Referances
     //---------------------------------------------------------------------------------
@@ -467,6 +758,137 @@ export class cpu6510 {
      */
     public memory: MemoryLike;
 
+    //---------------------------------------------------------------------------------
+    //      Configuration
+    //---------------------------------------------------------------------------------
+
+    /**
+     * # Unstable
+     * 
+     * Used to select how the unstable illegal operations behave, to match different chip revisions.
+     */
+    public unstable: UnstableConfiguration;
+
+    //---------------------------------------------------------------------------------
+    //      Events
+    //---------------------------------------------------------------------------------
+
+    /**
+     * # On Jam
+     * 
+     * Called when a {@link JAM} operation locks up the processor, with the address of the operation.
+     */
+    public onJam?: (address: word) => void;
+
+    /**
+     * # On Port
+     * 
+     * Called when the on-chip I/O port is written or reset, with the new levels of {@link port}.
+     */
+    public onPort?: (port: byte) => void;
+
+    /**
+     * # On Breakpoint
+     * 
+     * Called when a breakpoint fires, with what fired it.
+     */
+    public onBreakpoint?: (hit: BreakpointHit) => void;
+
+    /**
+     * # On Instruction
+     * 
+     * Called when an instruction is loaded, with the address of its operation code, before the operation code is read
+     * and while the registers still hold their values from before the instruction.
+     */
+    public onInstruction?: (address: word) => void;
+
+    /**
+     * # On Cycle
+     * 
+     * Called at the end of every clock cycle, including cycles where the processor is halted or jammed, while the pins
+     * still hold the levels of the cycle.
+     */
+    public onCycle?: () => void;
+
+    //---------------------------------------------------------------------------------
+    //      State
+    //---------------------------------------------------------------------------------
+
+    /**
+     * # Jammed
+     * 
+     * Whether the processor has been locked up by a {@link JAM} operation, only a {@link reset} will recover it.
+     */
+    public get jammed(): boolean { return this.isJammed; }
+
+    /**
+     * # Cycles
+     * 
+     * The number of clock cycles run since construction or {@link resetCounters}, including cycles where the processor
+     * is halted or jammed.
+     */
+    public get cycles(): number { return this.CYC; }
+
+    /**
+     * # Instructions
+     * 
+     * The number of instructions completed since construction or {@link resetCounters}, where interrupts and the reset
+     * sequence are not counted.
+     */
+    public get instructions(): number { return this.INS; }
+
+    /**
+     * # Registers
+     * 
+     * A copy of the register file, changing it does not change the processor, use {@link setRegisters} for that.
+     */
+    public get registers(): Readonly<Registers> {
+        return {
+            programCounter: word(this.PC),
+            statusRegister: byte(this.PS),
+            stackPointer: byte(this.SP),
+            accumulator: byte(this.AC),
+            indexX: byte(this.XR),
+            indexY: byte(this.YR),
+        };
+    }
+
+    /**
+     * # Flags
+     * 
+     * A copy of the flags of the **processor status**, changing it does not change the processor, use
+     * {@link setFlags} for that.
+     */
+    public get flags(): Readonly<Flags> {
+        return {
+            negative: byte.get(this.PS, 7)? 1 : 0,
+            overflow: byte.get(this.PS, 6)? 1 : 0,
+            break: byte.get(this.PS, 4)? 1 : 0,
+            decimal: byte.get(this.PS, 3)? 1 : 0,
+            interrupt: byte.get(this.PS, 2)? 1 : 0,
+            zero: byte.get(this.PS, 1)? 1 : 0,
+            carry: byte.get(this.PS, 0)? 1 : 0,
+        };
+    }
+
+    /**
+     * # Pins
+     * 
+     * A copy of the levels of the pins, changing it does not change the processor.
+     */
+    public get pins(): Readonly<Pins> {
+        return {
+            addressBus: word(this.IO_AB),
+            dataBus: byte(this.IO_DB),
+            readWrite: this.IO_RW,
+            interruptRequest: this.IO_IRQ,
+            nonMaskableInterrupt: this.IO_NMI,
+            ready: this.IO_RDY,
+            addressEnableControl: this.IO_AEC,
+            portInput: byte(this.IO_P),
+        };
+    }
+
     //---------------------------------------------------------------------------------
     //      Pins
     //---------------------------------------------------------------------------------
@@ -511,6 +933,42 @@ export class cpu6510 {
     public get dataBus(): byte { return byte(this.IO_DB); };
     public set dataBus(data: number) { this.IO_DB = byte(data); this.logAction('Setting', 'Pin', 'Data Bus', byte(data)); }
 
+    /**
+     * # Read Write
+     * 
+     * ## Pin - R/W
+     * 
+     * Set while the processor reads and clear while it writes, where clock cycles without a bus access read.
+     * 
+     * @alias RW
+     */
+    public get readWrite(): boolean { return this.IO_RW; }
+
+    /**
+     * # Port
+     * 
+     * ## Pin - P⁰ ⇨ P⁵
+     * 
+     * The levels of the on-chip I/O port lines, where output lines are driven by the **port data register** and input
+     * lines by {@link portInput}.
+     * 
+     * On the C64 these are LORAM, HIRAM, CHAREN, cassette write, cassette sense and cassette motor.
+     */
+    public get port(): byte { return byte(((this.PDR & this.DDR) | (this.IO_P & ~this.DDR)) & 0b00111111); }
+
+    /**
+     * # Port Input
+     * 
+     * ## Pin - P⁰ ⇨ P⁵
+     * 
+     * The levels the rest of the machine drives onto the on-chip I/O port lines configured as inputs, where the lines
+     * with pull-ups are set when nothing drives them.
+     * 
+     * @alias P
+     */
+    public get portInput(): byte { return byte(this.IO_P); }
+    public set portInput(data: number) { this.IO_P = byte(data); this.logAction('Setting', 'Pin', 'Port Input', byte(data)); }
+
     //#################################################################################
     //#
     //#     PUBLIC FUNCTIONS
@@ -528,25 +986,13 @@ export class cpu6510 {
      */
     public clock(): void {
         this.logCall('Clock');
+        this.CYC++;
+        this.IO_RW = true;
+        this.breakpointHit = undefined;
+        this.fadePort();
+        this.cycle();
 
-        if (this.sequences.length !== 0) {
-            this.log('Working', '...', this.sequences.length);
-            return this.nextSequence().call(this);
-        }
-
-        this.log('Loading Instruction');
-        this.addressingProgramCounter();
-        this.incrementProgramCounter();
-        this.fetch();
-        this.internalInstruction = this.dataBus;
-
-        this.log('Cleanup Internals');
-        this.internalAddressData = 0;
-        this.internalDataBus = 0;
-
-        this.log('Setup Sequences');
-        this.addressings[this.internalInstruction].call(this);
-
+        if (this.onCycle) this.onCycle();
         this.log('Done');
     }
 
@@ -554,10 +1000,14 @@ export class cpu6510 {
      * # Interrupt Request
      * 
      * ## Pin - IRQ
+     * 
+     * The **interrupt request** line is level triggered, as long as it is held active and the **interrupt** flag is
+     * clear, the processor will service an interrupt through the vector at *$FFFE* after the current instruction.
      */
-    public interruptRequest(): void {
+    public interruptRequest(active: boolean = true): void {
         this.logCall('Interrupt Request');
-        if (this.interruptFlag) this.breakFlag = 1;
+        this.IO_IRQ = active;
+        this.logAction('Setting', 'Pin', 'Interrupt Request', active);
         this.log('Done');
     }
 
@@ -565,10 +1015,48 @@ export class cpu6510 {
      * # Non-Maskable Interrupt
      * 
      * ## Pin - NMI
+     * 
+     * The **non-maskable interrupt** line is edge triggered, only when it goes from inactive to active will the
+     * processor service an interrupt through the vector at *$FFFA* after the current instruction.
      */
-    public nonMaskableInterrupt(): void {
+    public nonMaskableInterrupt(active: boolean = true): void {
         this.logCall('Non-Maskable Interrupt');
-        this.breakFlag = 1;
+        if (active && !this.IO_NMI) this.I_NMI = true;
+        this.IO_NMI = active;
+        this.logAction('Setting', 'Pin', 'Non-Maskable Interrupt', active);
+        this.log('Done');
+    }
+
+    /**
+     * # Ready
+     * 
+     * ## Pin - RDY
+     * 
+     * While the **ready** line is inactive the processor halts on the next read cycle, while write cycles continue, so
+     * the processor can take up to *three* more clock cycles before it halts, as needed when the video chip steals cycles.
+     */
+    public ready(active: boolean = true): void {
+        this.logCall('Ready');
+        this.IO_RDY = active;
+        this.logAction('Setting', 'Pin', 'Ready', active);
+        this.log('Done');
+    }
+
+    /**
+     * # Address Enable Control
+     * 
+     * ## Pin - AEC
+     * 
+     * While the **address enable control** line is inactive the processor is disconnected from the buses, so reads and
+     * writes does not reach the memory, leaving the buses to the video chip.
+     * 
+     * The processor itself keeps running, so the **ready** line should be inactive for at least *three* clock cycles
+     * before, as the video chip of the C64 does.
+     */
+    public addressEnableControl(active: boolean = true): void {
+        this.logCall('Address Enable Control');
+        this.IO_AEC = active;
+        this.logAction('Setting', 'Pin', 'Address Enable Control', active);
         this.log('Done');
     }
 
@@ -587,21 +1075,240 @@ export class cpu6510 {
      * # Reset
      * 
      * ## Pin - RES
+     * 
+     * Resets the processor to its default state, the following *seven* clock cycles will perform the reset sequence.
      */
     public reset(): void {
         this.logCall('Reset');
         this.defaultState();
+        this.resetSequence();
+        if (this.onPort) this.onPort(this.port);
+        this.log('Done');
+    }
+
+    /**
+     * # Reset Counters
+     * 
+     * Resets the {@link cycles} and {@link instructions} counters to *zero*, which a {@link reset} of the processor
+     * does not.
+     */
+    public resetCounters(): void {
+        this.logCall('Reset Counters');
+        this.CYC = 0;
+        this.INS = 0;
         this.log('Done');
     }
 
     //---------------------------------------------------------------------------------
-    //      Debuging
+    //      Registers
     //---------------------------------------------------------------------------------
 
-    public debugInfo(): void {
-        let pc: word = this.programCounter;
-        let ps: byte = this.statusRegister;
-        let sp: byte = this.stackPointer;
+    /**
+     * # Set Registers
+     * 
+     * Sets the given registers, leaving the rest as they are, as when setting up the processor before a test.
+     * 
+     * Unlike the operations, this does not log every register set.
+     */
+    public setRegisters(registers: Partial<Registers>): void {
+        this.logCall('Set Registers');
+        if (registers.programCounter !== undefined) this.PC = word(registers.programCounter);
+        if (registers.statusRegister !== undefined) this.PS = byte(registers.statusRegister);
+        if (registers.stackPointer !== undefined) this.SP = byte(registers.stackPointer);
+        if (registers.accumulator !== undefined) this.AC = byte(registers.accumulator);
+        if (registers.indexX !== undefined) this.XR = byte(registers.indexX);
+        if (registers.indexY !== undefined) this.YR = byte(registers.indexY);
+        this.log('Done');
+    }
+
+    /**
+     * # Set Flags
+     * 
+     * Sets the given flags of the **processor status**, leaving the rest as they are.
+     * 
+     * Unlike the operations, this does not log every flag set.
+     */
+    public setFlags(flags: Partial<Flags>): void {
+        this.logCall('Set Flags');
+        if (flags.negative !== undefined) this.PS = byte.set(this.PS, 7, flags.negative);
+        if (flags.overflow !== undefined) this.PS = byte.set(this.PS, 6, flags.overflow);
+        if (flags.break !== undefined) this.PS = byte.set(this.PS, 4, flags.break);
+        if (flags.decimal !== undefined) this.PS = byte.set(this.PS, 3, flags.decimal);
+        if (flags.interrupt !== undefined) this.PS = byte.set(this.PS, 2, flags.interrupt);
+        if (flags.zero !== undefined) this.PS = byte.set(this.PS, 1, flags.zero);
+        if (flags.carry !== undefined) this.PS = byte.set(this.PS, 0, flags.carry);
+        this.log('Done');
+    }
+
+    /**
+     * # Peek
+     * 
+     * Reads the byte at the address as the processor would, without using the bus, so no breakpoints are checked.
+     * 
+     * The on-chip I/O port answers for address *zero* and *one*, other addresses are read through
+     * {@link MemoryLike.peek}, or through {@link MemoryLike.read} when the memory has no peek, where reading I/O
+     * registers may have side effects.
+     */
+    public peek(address: word): byte {
+        if (address === PORT_DATA_DIRECTION_ADDRESS) return byte(this.dataDirectionRegister);
+        if (address !== PORT_DATA_ADDRESS) return byte(this.memory.peek? this.memory.peek(address) : this.memory.read(address));
+
+        let data = (this.portDataRegister & this.dataDirectionRegister) | (this.portInput & ~this.dataDirectionRegister & 0b00111111);
+        if (!byte.get(this.dataDirectionRegister, 6) && this.I_P6 > 0) data |= 0b01000000;
+        if (!byte.get(this.dataDirectionRegister, 7) && this.I_P7 > 0) data |= 0b10000000;
+
+        return byte(data);
+    }
+
+    //---------------------------------------------------------------------------------
+    //      State
+    //---------------------------------------------------------------------------------
+
+    /**
+     * # Get State
+     * 
+     * Captures the state of the processor, which can be restored with {@link setState} to resume from the same clock
+     * cycle, even within an instruction.
+     * 
+     * The memory, configuration and events are not part of the state.
+     */
+    public getState(): ProcessorState {
+        this.logCall('Get State');
+        let state: ProcessorState = {
+            registers: this.registers,
+            port: {
+                dataDirectionRegister: byte(this.DDR),
+                portDataRegister: byte(this.PDR),
+            },
+            internals: {
+                internalInstruction: byte(this.I_I),
+                internalAddressData: word(this.I_AD),
+                internalDataBus: byte(this.I_DB),
+                nonMaskableInterrupt: this.I_NMI,
+                interrupt: this.I_INT,
+                portFallOff6: this.I_P6,
+                portFallOff7: this.I_P7,
+                halted: this.I_HLT,
+                stalled: this.I_STL,
+                jammed: this.isJammed,
+                instruction: this.isInstruction,
+            },
+            pins: { ...this.pins },
+            counters: {
+                cycles: this.CYC,
+                instructions: this.INS,
+            },
+            sequences: this.sequences.map((sequence) => {
+                let sequenceState = this.sequenceStates.get(sequence);
+                if (!sequenceState) throw new StateError('A sequence in progress was not added by a routine');
+
+                return { routine: sequenceState.routine, args: [...sequenceState.args], cycle: sequenceState.cycle };
+            }),
+        };
+        this.log('Done');
+        return state;
+    }
+
+    /**
+     * # Set State
+     * 
+     * Restores a state captured by {@link getState}, where the sequences in progress are added again by the routines
+     * that added them.
+     */
+    public setState(state: ProcessorState): void {
+        this.logCall('Set State');
+        this.setRegisters(state.registers);
+        this.DDR = byte(state.port.dataDirectionRegister);
+        this.PDR = byte(state.port.portDataRegister);
+        this.I_I = byte(state.internals.internalInstruction);
+        this.I_AD = word(state.internals.internalAddressData);
+        this.I_DB = byte(state.internals.internalDataBus);
+        this.I_NMI = state.internals.nonMaskableInterrupt;
+        this.I_INT = state.internals.interrupt;
+        this.I_P6 = state.internals.portFallOff6;
+        this.I_P7 = state.internals.portFallOff7;
+        this.I_HLT = state.internals.halted;
+        this.I_STL = state.internals.stalled;
+        this.isJammed = state.internals.jammed;
+        this.isInstruction = state.internals.instruction;
+        this.IO_AB = word(state.pins.addressBus);
+        this.IO_DB = byte(state.pins.dataBus);
+        this.IO_RW = state.pins.readWrite;
+        this.IO_IRQ = state.pins.interruptRequest;
+        this.IO_NMI = state.pins.nonMaskableInterrupt;
+        this.IO_RDY = state.pins.ready;
+        this.IO_AEC = state.pins.addressEnableControl;
+        this.IO_P = byte(state.pins.portInput);
+        this.CYC = state.counters.cycles;
+        this.INS = state.counters.instructions;
+        this.sequences = state.sequences.map((sequenceState) => this.replaySequence(sequenceState));
+        this.log('Done');
+    }
+
+    //---------------------------------------------------------------------------------
+    //      Stepping
+    //---------------------------------------------------------------------------------
+
+    /**
+     * # Step Instruction
+     * 
+     * Runs clock cycles until the instruction in progress is completed, or the next one when between instructions.
+     * 
+     * An interrupt or the reset sequence in progress is stepped the same way, but is not counted as an instruction.
+     */
+    public stepInstruction(limit: number = CYCLE_LIMIT_DEFUALT): RunSummary {
+        this.logCall('Step Instruction');
+        let summary = this.run(limit, 'limit', () => {
+            if (this.isJammed) return 'jammed';
+            if (this.sequences.length === 0) return 'instruction';
+            return undefined;
+        });
+        this.log('Done');
+        return summary;
+    }
+
+    /**
+     * # Run Cycles
+     * 
+     * Runs the given number of clock cycles, ending anywhere within an instruction.
+     * 
+     * A jammed processor is still clocked, so the cycles stays in step with the rest of the machine.
+     */
+    public runCycles(cycles: number): RunSummary {
+        this.logCall('Run Cycles');
+        let summary = this.run(cycles, 'cycles', () => undefined);
+        this.log('Done');
+        return summary;
+    }
+
+    /**
+     * # Run Until
+     * 
+     * Runs whole instructions until the condition is met after one of them, or until the cycle limit is reached, so a
+     * condition never met can not lock up the caller.
+     * 
+     * The condition is not checked before the first instruction, so running until the current **program counter** runs
+     * until it is reached again.
+     */
+    public runUntil(condition: ConditionFunction, limit: number = CYCLE_LIMIT_DEFUALT): RunSummary {
+        this.logCall('Run Until');
+        let summary = this.run(limit, 'limit', () => {
+            if (this.isJammed) return 'jammed';
+            if (this.sequences.length === 0 && condition(this)) return 'condition';
+            return undefined;
+        });
+        this.log('Done');
+        return summary;
+    }
+
+    //---------------------------------------------------------------------------------
+    //      Debuging
+    //---------------------------------------------------------------------------------
+
+    public debugInfo(): void {
+        let pc: word = this.programCounter;
+        let ps: byte = this.statusRegister;
+        let sp: byte = this.stackPointer;
         let a: byte = this.accumulator;
         let x: byte = this.indexX;
         let y: byte = this.indexY;
@@ -670,158 +1377,983 @@ export class cpu6510 {
         console.info(result);
     }
 
-    //#################################################################################
-    //#
-    //#     PROTECTED FUNCTIONS
-    //#
-    //#################################################################################
+    //#################################################################################
+    //#
+    //#     PROTECTED FUNCTIONS
+    //#
+    //#################################################################################
+
+    //---------------------------------------------------------------------------------
+    //      Functionality
+    //---------------------------------------------------------------------------------
+
+    protected defaultState(): void {
+        this.log('Resetting to default state');
+
+        this.programCounter = PROGRAM_COUNTER_DEFUALT;
+        this.statusRegister = STATUS_REGISTER_DEFUALT;
+        this.stackPointer = STACK_POINTER_DEFUALT;
+        this.accumulator = ACCUMULATOR_DEFUALT;
+        this.indexX = X_REGISTER_DEFUALT;
+        this.indexY = Y_REGISTER_DEFUALT;
+        this.internalInstruction = INSTRUCTION_REGISTER_DEFUALT;
+        this.internalAddressData = INTERNAL_ADDRESS_DATA_DEFUALT;
+        this.dataDirectionRegister = DATA_DIRECTION_REGISTER_DEFUALT;
+        this.portDataRegister = PORT_DATA_REGISTER_DEFUALT;
+        this.I_P6 = 0;
+        this.I_P7 = 0;
+        this.sequences = [];
+        this.isJammed = false;
+        this.isInstruction = false;
+        this.I_NMI = false;
+        this.I_INT = false;
+        this.I_HLT = false;
+        this.I_STL = false;
+        this.addressBus = ADDRESS_BUS_BUFFER_DEFUALT;
+        this.dataBus = DATA_BUS_BUFFER_DEFUALT;
+    }
+
+    /**
+     * # Reset Sequence
+     * 
+     * Used to emulate the *seven* clock cycles the processor takes to reset, where *three* stack pushes are performed
+     * as reads, leaving the **stack pointer** decremented by *three*, before the **program counter** is loaded from the
+     * reset vector at *$FFFC* and *$FFFD*.
+     */
+    protected resetSequence(): void {
+        let T0 = () => {
+            this.addressingProgramCounter();
+            this.fetch();
+        }
+        let T1 = () => {
+            this.addressingProgramCounter();
+            this.fetch();
+        }
+        let T2 = () => {
+            this.addressingStackPointer();
+            this.fetch();
+            this.decrementStackPointer();
+        }
+        let T3 = () => {
+            this.addressingStackPointer();
+            this.fetch();
+            this.decrementStackPointer();
+        }
+        let T4 = () => {
+            this.addressingStackPointer();
+            this.fetch();
+            this.decrementStackPointer();
+        }
+        let T5 = () => {
+            this.addressBus = RESET_VECTOR;
+            this.fetch();
+            this.programCounterLow = this.dataBus;
+            this.interruptFlag = 1;
+        }
+        let T6 = () => {
+            this.incrementAddressBus();
+            this.fetch();
+            this.programCounterHigh = this.dataBus;
+        }
+
+        this.addSequence('reset', [], T0, T1, T2, T3, T4, T5, T6);
+    }
+
+    /**
+     * # Cycle
+     * 
+     * Used to run what the processor does in *one* clock cycle, unless it is jammed or halted by the **ready** line.
+     */
+    protected cycle(): void {
+        if (this.isJammed) {
+            this.log('Jammed');
+            return;
+        }
+
+        if (!this.IO_RDY && !this.isWriteCycle()) {
+            this.log('Halted');
+            if (!this.I_HLT) this.holdRead();
+            this.I_HLT = true;
+            return;
+        }
+
+        this.advance();
+
+        if (this.sequences.length === 1) this.pollInterrupts();
+        if (this.sequences.length === 0 && this.isInstruction && !this.isJammed) this.INS++;
+        if (this.sequences.length === 0 && !this.isJammed && !this.I_INT) this.hitBreakpoint(this.breakpoints.checkInstruction());
+
+        this.I_STL = this.I_HLT;
+        this.I_HLT = false;
+    }
+
+    /**
+     * # Advance
+     * 
+     * Used to run the next clock cycle of the sequences, or to load an interrupt or the next instruction when there are
+     * none.
+     */
+    protected advance(): void {
+        if (this.sequences.length !== 0) {
+            this.log('Working', '...', this.sequences.length);
+            this.nextSequence().call(this);
+        }
+        else if (this.I_INT) {
+            this.log('Loading Interrupt');
+            this.loadInterrupt();
+        }
+        else {
+            this.log('Loading Instruction');
+            this.loadInstruction();
+        }
+    }
+
+    /**
+     * # Hold Read
+     * 
+     * Used to emulate how a read cycle halted by the **ready** line keeps its address and data on the bus until the
+     * **ready** line is active again, when the read cycle is run.
+     * 
+     * Called in the *first* halted clock cycle, it runs the read cycle to latch its address and data on the pins and
+     * puts back everything else it changed, while the following halted clock cycles leave the pins as they are.
+     */
+    protected holdRead(): void {
+        let saved = { ...this, sequences: [...this.sequences] };
+
+        this.isHolding = true;
+        this.advance();
+        this.isHolding = false;
+
+        let address = this.IO_AB;
+        let data = this.IO_DB;
+        Object.assign(this, saved);
+        this.IO_AB = address;
+        this.IO_DB = data;
+    }
+
+    /**
+     * # Load Instruction
+     * 
+     * Used to emulate how the processor fetches the next operation code and sets up the sequences to perform it.
+     */
+    protected loadInstruction(): void {
+        this.addressingProgramCounter();
+        if (this.onInstruction && !this.isHolding) this.onInstruction(this.addressBus);
+        this.incrementProgramCounter();
+        this.fetch();
+        this.internalInstruction = this.dataBus;
+        this.isInstruction = true;
+        if (!this.isHolding) this.hitBreakpoint(this.breakpoints.checkOpcode(this.addressBus, this.internalInstruction));
+
+        this.log('Cleanup Internals');
+        this.internalAddressData = 0;
+        this.internalDataBus = 0;
+
+        this.log('Setup Sequences');
+        this.addressings[this.internalInstruction].call(this);
+    }
+
+    /**
+     * # Load Interrupt
+     * 
+     * Used to emulate how the processor services an interrupt instead of the next operation code, by forcing a
+     * {@link BRK} into the **instruction register** without incrementing the **program counter**.
+     */
+    protected loadInterrupt(): void {
+        this.I_INT = false;
+
+        this.addressingProgramCounter();
+        this.fetch();
+        this.internalInstruction = 0x00;
+        this.isInstruction = false;
+
+        this.log('Cleanup Internals');
+        this.internalAddressData = 0;
+        this.internalDataBus = 0;
+
+        this.interruptSequence(0);
+    }
+
+    /**
+     * # Interrupt Sequence
+     * 
+     * Used to emulate the *five* clock cycles shared by {@link BRK}, IRQ and NMI, where the **program counter** and
+     * **processor status** are pushed on the stack before the **program counter** is loaded from the vector.
+     * 
+     * The vector is first chosen when it is fetched, so a NMI arriving while a {@link BRK} or IRQ is pushing to the stack
+     * hijacks the sequence and the NMI vector at *$FFFA* is used instead of *$FFFE*.
+     * 
+     * IRQ and NMI takes *one* more clock cycle reading the next byte, which {@link BRK} performs as its addressing.
+     */
+    protected interruptSequence(breakFlag: bit): void {
+        let T1 = () => {
+            this.addressingProgramCounter();
+            this.fetch();
+        }
+        let T2 = () => {
+            this.push(this.programCounterHigh);
+        }
+        let T3 = () => {
+            this.push(this.programCounterLow);
+        }
+        let T4 = () => {
+            this.push(byte.set(this.statusRegister | 0b00100000, 4, breakFlag));
+        }
+        let T5 = () => {
+            this.addressBus = this.I_NMI? NON_MASKABLE_INTERRUPT_VECTOR : INTERRUPT_REQUEST_VECTOR;
+            this.I_NMI = false;
+            this.fetch();
+            this.programCounterLow = this.dataBus;
+            this.interruptFlag = 1;
+        }
+        let T6 = () => {
+            this.incrementAddressBus();
+            this.fetch();
+            this.programCounterHigh = this.dataBus;
+        }
+
+        if (breakFlag) this.addSequence('interrupt', [breakFlag], this.writeCycle(T2), this.writeCycle(T3), this.writeCycle(T4), T5, T6);
+        else this.addSequence('interrupt', [breakFlag], T1, this.writeCycle(T2), this.writeCycle(T3), this.writeCycle(T4), T5, T6);
+    }
+
+    /**
+     * # Poll Interrupts
+     * 
+     * Used to emulate how the processor checks the interrupt lines in the clock cycle before the last clock cycle of
+     * an instruction, deciding whether an interrupt is serviced before the next instruction.
+     * 
+     * As {@link CLI}, {@link SEI} and {@link PLP} change the **interrupt** flag in their last clock cycle, after the
+     * poll, the change is first seen when polling for the next instruction.
+     */
+    protected pollInterrupts(): void {
+        this.I_INT = this.I_NMI || (this.IO_IRQ && !this.interruptFlag);
+    }
+
+    /**
+     * # Run
+     * 
+     * Used to run clock cycles until the check tells why to stop after a cycle, or until the limit is reached.
+     */
+    protected run(limit: number, exhausted: StopReason, check: () => StopReason | undefined): RunSummary {
+        let cycles = this.CYC;
+        let instructions = this.INS;
+        let reason: StopReason = exhausted;
+
+        for (let count = 0; count < limit; count++) {
+            this.clock();
+            let stop = this.breakpointHit? 'breakpoint' : check();
+
+            if (stop !== undefined) {
+                reason = stop;
+                break;
+            }
+        }
+
+        let summary: RunSummary = {
+            cycles: this.CYC - cycles,
+            instructions: this.INS - instructions,
+            reason: reason,
+            programCounter: this.PC,
+        };
+
+        if (reason === 'breakpoint') summary.breakpoint = this.breakpointHit;
+        return summary;
+    }
+
+    /**
+     * # Hit Breakpoint
+     * 
+     * Used to keep the *first* breakpoint firing in the current clock cycle.
+     */
+    protected hitBreakpoint(hit: BreakpointHit | undefined): void {
+        if (!hit || this.breakpointHit) return;
+
+        this.log('Breakpoint', hit.breakpoint.id);
+        this.breakpointHit = hit;
+        if (this.onBreakpoint) this.onBreakpoint(hit);
+    }
+
+    //---------------------------------------------------------------------------------
+    //      Data Handling
+    //---------------------------------------------------------------------------------
+
+    /**
+     * # Fetch
+     * 
+     * Used to emulate how data is transfered from memory to the processor.
+     */
+    protected fetch(): void {
+        this.log('Reading Memory', '0x' + word.toHexadecimal(this.addressBus));
+        this.IO_RW = true;
+        if (!this.IO_AEC) return;
+
+        this.dataBus = this.memory.read(this.addressBus);
+        if (this.isPortAddress()) this.readPort();
+        if (!this.isHolding) this.hitBreakpoint(this.breakpoints.checkRead(this.addressBus, this.dataBus));
+    }
+
+    /**
+     * # Write
+     * 
+     * Used to emulate how data is thransfered from the processor to memory.
+     */
+    protected write(): void {
+        this.log('Write', 'Memory', '0x' + word.toHexadecimal(this.addressBus));
+        this.IO_RW = false;
+        if (!this.IO_AEC) return;
+
+        this.memory.write(this.addressBus, this.dataBus);
+        if (this.isPortAddress()) this.writePort();
+        this.hitBreakpoint(this.breakpoints.checkWrite(this.addressBus, this.dataBus));
+    }
+
+    /**
+     * # Set Internal Data Bus
+     * 
+     * Used for easily setting the **internal data bus** to **data bus**.
+     */
+    protected setInternalDataBus(): void {
+        this.log('Setting ID = DB');
+        this.internalDataBus = this.dataBus;
+    }
+
+    /**
+     * # Load Internal Data Bus
+     * 
+     * Used for easily setting the **data bus** to **internal data bus**.
+     */
+    protected loadInternalDataBus(): void {
+        this.log('Setting DB = ID');
+        this.dataBus = this.internalDataBus;
+    }
+
+    //---------------------------------------------------------------------------------
+    //      Port
+    //---------------------------------------------------------------------------------
+
+    /**
+     * # Is Port Address
+     * 
+     * Used to know if the **address bus** points to the on-chip I/O port at *$00* or *$01*.
+     */
+    protected isPortAddress(): boolean {
+        return this.addressBus <= PORT_DATA_ADDRESS;
+    }
+
+    /**
+     * # Read Port
+     * 
+     * Used to emulate how the on-chip I/O port answers a read instead of the memory.
+     * 
+     * Bit *six* and *seven* have no port lines, so when configured as inputs they read the charge left from the last
+     * time they were driven as outputs, until it has faded away.
+     */
+    protected readPort(): void {
+        this.log('Reading Port', '0x' + word.toHexadecimal(this.addressBus));
+        this.dataBus = this.peek(this.addressBus);
+    }
+
+    /**
+     * # Write Port
+     * 
+     * Used to emulate how the on-chip I/O port is written, the write still reaches the memory as well.
+     */
+    protected writePort(): void {
+        this.log('Write', 'Port', '0x' + word.toHexadecimal(this.addressBus));
+
+        if (this.addressBus === PORT_DATA_DIRECTION_ADDRESS) {
+            let released = this.dataDirectionRegister & ~this.dataBus;
+            if (byte.get(released, 6)) this.I_P6 = byte.get(this.portDataRegister, 6)? PORT_FALL_OFF_CYCLES : 0;
+            if (byte.get(released, 7)) this.I_P7 = byte.get(this.portDataRegister, 7)? PORT_FALL_OFF_CYCLES : 0;
+            this.dataDirectionRegister = this.dataBus;
+        }
+        else {
+            this.portDataRegister = this.dataBus;
+        }
+
+        if (this.onPort) this.onPort(this.port);
+    }
+
+    /**
+     * # Fade Port
+     * 
+     * Used to emulate how the charge of bit *six* and *seven* of the on-chip I/O port fades away over time.
+     */
+    protected fadePort(): void {
+        if (this.I_P6 > 0) this.I_P6--;
+        if (this.I_P7 > 0) this.I_P7--;
+    }
+
+    //---------------------------------------------------------------------------------
+    //      Program Counter
+    //---------------------------------------------------------------------------------
+
+    /**
+     * # Addressing Program Counter
+     * 
+     * Used for easily setting the **address bus** to **program counter**.
+     */
+    protected addressingProgramCounter(): void {
+        this.log('Setting AB = PC');
+        this.addressBus = this.programCounter;
+    }
+
+    /**
+     * # Set Program Counter
+     * 
+     * Used for easily setting the **program counter** to **internal address data**.
+     */
+    protected setProgramCounter(): void {
+        this.log('Setting PC = AD');
+        this.programCounter = this.internalAddressData;
+    }
+
+    /**
+     * # Increment Program Counter
+     * 
+     * Used for easily setting the next opcode.
+     */
+    protected incrementProgramCounter(): void {
+        this.log('Increment PC++');
+        this.programCounter++;
+    }
+
+    //---------------------------------------------------------------------------------
+    //      Address manupulation
+    //---------------------------------------------------------------------------------
+
+    /**
+     * # Addressing Internal Address Data
+     * 
+     * Used for easily setting the **address bus** to **internal address data**.
+     */
+    protected addressingInternalAddressData(): void {
+        this.log('Setting AB = AD');
+        this.addressBus = this.internalAddressData;
+    }
+
+    /**
+     * # Set Internal Address Data
+     * 
+     * Used for easily setting the **internal address data** to **program counter**.
+     */
+    protected setInternalAddressData(): void {
+        this.log('Setting AD = PC');
+        this.internalAddressData = this.programCounter;
+    }
+
+    /**
+     * # Increment Address Bus
+     * 
+     * Used for easily setting the **address bus** to the next address.
+     */
+    protected incrementAddressBus(): void {
+        this.log('Increment AB++');
+        this.addressBus++;
+    }
+
+    /**
+     * # Increment Address Bus Low
+     * 
+     * Used for easily setting the **address bus** to the next address, without carry into the high order *eight* bits.
+     */
+    protected incrementAddressBusLow(): void {
+        this.log('Increment ABL++');
+        this.addressBusLow++;
+    }
+
+    /**
+     * # Index Internal Address Data
+     * 
+     * Used by indexed addressings to add an index to **internal address data low**, reading from the address before the
+     * high order *eight* bits are fixed.
+     * 
+     * Only operations reading from memory can use that read when no page is crossed, every other case takes *one* extra
+     * clock cycle to fix the high order *eight* bits before the operation is performed.
+     */
+    protected indexInternalAddressData(operation: OperationFunction, index: byte): void {
+        let pageCrossing = this.internalAddressDataLow + index > 0xFF;
+        this.internalAddressDataLow += index;
+        this.addressingInternalAddressData();
+
+        if (!pageCrossing && this.isReadOperation()) return operation.call(this);
+
+        this.fetch();
+        this.indexSequence(pageCrossing? 1 : 0);
+    }
+
+    /**
+     * # Index Sequence
+     * 
+     * Used by {@link indexInternalAddressData} for the extra clock cycle fixing the high order *eight* bits, before the
+     * operation is performed.
+     */
+    protected indexSequence(pageCrossing: bit): void {
+        let operation = this.operations[this.internalInstruction];
+        let T = () => {
+            if (pageCrossing) this.internalAddressDataHigh++;
+            this.addressingInternalAddressData();
+            operation.call(this);
+        }
+
+        this.addSequence('index', [pageCrossing], this.operationCycle(T));
+    }
+
+    //---------------------------------------------------------------------------------
+    //      Stack
+    //---------------------------------------------------------------------------------
+
+    /**
+     * # Addressing Stack Pointer
+     * 
+     * Used for easily setting the **address bus** to **stack pointer** on page *one*.
+     */
+    protected addressingStackPointer(): void {
+        this.log('Setting AB = SP');
+        this.addressBus = STACK_PAGE + this.stackPointer;
+    }
+
+    /**
+     * # Increment Stack Pointer
+     * 
+     * Used for easily pointing the **stack pointer** to the last pushed data.
+     */
+    protected incrementStackPointer(): void {
+        this.log('Increment SP++');
+        this.stackPointer++;
+    }
+
+    /**
+     * # Decrement Stack Pointer
+     * 
+     * Used for easily pointing the **stack pointer** to the next free location.
+     */
+    protected decrementStackPointer(): void {
+        this.log('Decrement SP--');
+        this.stackPointer--;
+    }
+
+    /**
+     * # Push
+     * 
+     * Used to emulate how the processor writes data to the stack, taking *one* clock cycle.
+     */
+    protected push(data: byte): void {
+        this.addressingStackPointer();
+        this.dataBus = data;
+        this.write();
+        this.decrementStackPointer();
+    }
+
+    /**
+     * # Pull
+     * 
+     * Used to emulate how the processor reads data from the stack, taking *one* clock cycle.
+     * 
+     * The **stack pointer** must already have been incremented, which the processor does in the clock cycle before.
+     */
+    protected pull(): byte {
+        this.addressingStackPointer();
+        this.fetch();
+        return this.dataBus;
+    }
+
+    /**
+     * # Pull Status Register
+     * 
+     * Used for easily setting the **processor status** from data pulled from the stack, where the **break** flag and
+     * the unused bit does not exist in the real register and is therefor left untouched.
+     */
+    protected pullStatusRegister(): void {
+        this.statusRegister = (this.pull() & 0b11001111) | (this.statusRegister & 0b00110000);
+    }
 
     //---------------------------------------------------------------------------------
-    //      Functionality
+    //      Flags
     //---------------------------------------------------------------------------------
 
-    protected defaultState(): void {
-        this.log('Resetting to default state');
-
-        this.programCounter = PROGRAM_COUNTER_DEFUALT;
-        this.statusRegister = STATUS_REGISTER_DEFUALT;
-        this.stackPointer = STACK_POINTER_DEFUALT;
-        this.accumulator = ACCUMULATOR_DEFUALT;
-        this.indexX = X_REGISTER_DEFUALT;
-        this.indexY = Y_REGISTER_DEFUALT;
-        this.internalInstruction = INSTRUCTION_REGISTER_DEFUALT;
-        this.internalAddressData = INTERNAL_ADDRESS_DATA_DEFUALT;
-        this.sequences = [];
-        this.addressBus = ADDRESS_BUS_BUFFER_DEFUALT;
-        this.dataBus = DATA_BUS_BUFFER_DEFUALT;
+    /**
+     * # Update Negative and Zero Flags
+     * 
+     * Used for easily setting the **negative** and **zero** flags from a result.
+     */
+    protected updateNegativeAndZeroFlags(data: byte): void {
+        this.negativeFlag = byte.get(data, 7)? 1 : 0;
+        this.zeroFlag = byte(data) === 0? 1 : 0;
     }
 
     //---------------------------------------------------------------------------------
-    //      Data Handling
+    //      Arithmetic and Logic
     //---------------------------------------------------------------------------------
 
     /**
-     * # Fetch
+     * # Compare
      * 
-     * Used to emulate how data is transfered from memory to the processor.
+     * Used for comparing a register with data, as done by {@link CMP}, {@link CPX} and {@link CPY}.
      */
-    protected fetch(): void {
-        this.log('Reading Memory', '0x' + word.toHexadecimal(this.addressBus));
-        this.dataBus = this.memory.read(this.addressBus);
+    protected compare(register: byte, data: byte): void {
+        this.carryFlag = register >= data? 1 : 0;
+        this.updateNegativeAndZeroFlags(byte(register - data));
     }
 
     /**
-     * # Write
+     * # Add with Carry
      * 
-     * Used to emulate how data is thransfered from the processor to memory.
+     * Used for adding data to the **accumulator** with **carry**, as done by {@link ADC}.
+     * 
+     * In **decimal** mode the NMOS processor derives the **negative** and **overflow** flags from the intermediate result,
+     * before the high nibble is adjusted, and the **zero** flag from the binary result. Invalid BCD nibbles are adjusted
+     * the same way as valid ones.
      */
-    protected write(): void {
-        this.log('Write', 'Memory', '0x' + word.toHexadecimal(this.addressBus));
-        this.memory.write(this.addressBus, this.dataBus);
+    protected addWithCarry(data: byte): void {
+        let carry = this.carryFlag;
+        let binary = this.accumulator + data + carry;
+
+        if (!this.decimalFlag) {
+            this.carryFlag = binary > 0xFF? 1 : 0;
+            this.overflowFlag = (~(this.accumulator ^ data) & (this.accumulator ^ binary) & 0x80)? 1 : 0;
+            this.accumulator = binary;
+            this.updateNegativeAndZeroFlags(this.accumulator);
+            return;
+        }
+
+        let result = (this.accumulator & 0x0F) + (data & 0x0F) + carry;
+        if (result > 0x09) result += 0x06;
+        result = (result & 0x0F) + (this.accumulator & 0xF0) + (data & 0xF0) + (result > 0x0F? 0x10 : 0);
+
+        this.zeroFlag = byte(binary) === 0? 1 : 0;
+        this.negativeFlag = byte.get(result, 7)? 1 : 0;
+        this.overflowFlag = (~(this.accumulator ^ data) & (this.accumulator ^ result) & 0x80)? 1 : 0;
+
+        if ((result & 0x1F0) > 0x90) result += 0x60;
+        this.carryFlag = (result & 0xFF0) > 0xF0? 1 : 0;
+        this.accumulator = result;
     }
 
     /**
-     * # Set Internal Data Bus
+     * # Subtract with Carry
      * 
-     * Used for easily setting the **internal data bus** to **data bus**.
+     * Used for subtracting data from the **accumulator** with borrow, as done by {@link SBC}.
+     * 
+     * In **decimal** mode the NMOS processor derives all flags from the binary result, only the **accumulator** receives
+     * the decimal adjusted result.
      */
-    protected setInternalDataBus(): void {
-        this.log('Setting ID = DB');
-        this.internalDataBus = this.dataBus;
+    protected subtractWithCarry(data: byte): void {
+        let borrow = this.carryFlag? 0 : 1;
+        let binary = this.accumulator - data - borrow;
+        let result = binary;
+
+        if (this.decimalFlag) {
+            result = (this.accumulator & 0x0F) - (data & 0x0F) - borrow;
+            if (result & 0x10) result = ((result - 0x06) & 0x0F) | ((this.accumulator & 0xF0) - (data & 0xF0) - 0x10);
+            else result = (result & 0x0F) | ((this.accumulator & 0xF0) - (data & 0xF0));
+            if (result & 0x100) result -= 0x60;
+        }
+
+        this.carryFlag = binary >= 0? 1 : 0;
+        this.overflowFlag = ((this.accumulator ^ data) & (this.accumulator ^ binary) & 0x80)? 1 : 0;
+        this.updateNegativeAndZeroFlags(byte(binary));
+        this.accumulator = result;
     }
 
     /**
-     * # Load Internal Data Bus
+     * # Shift Left
      * 
-     * Used for easily setting the **data bus** to **internal data bus**.
+     * Used for shifting data *one* bit left, the left most bit is shifted into the **carry** flag.
      */
-    protected loadInternalDataBus(): void {
-        this.log('Setting DB = ID');
-        this.internalDataBus = this.dataBus;
+    protected shiftLeft(data: byte): byte {
+        let result = byte(data << 1);
+        this.carryFlag = byte.get(data, 7)? 1 : 0;
+        this.updateNegativeAndZeroFlags(result);
+        return result;
+    }
+
+    /**
+     * # Shift Right
+     * 
+     * Used for shifting data *one* bit right, the right most bit is shifted into the **carry** flag.
+     */
+    protected shiftRight(data: byte): byte {
+        let result = byte(data >> 1);
+        this.carryFlag = byte.get(data, 0)? 1 : 0;
+        this.updateNegativeAndZeroFlags(result);
+        return result;
+    }
+
+    /**
+     * # Rotate Left
+     * 
+     * Used for rotating data *one* bit left through the **carry** flag.
+     */
+    protected rotateLeft(data: byte): byte {
+        let result = byte((data << 1) | this.carryFlag);
+        this.carryFlag = byte.get(data, 7)? 1 : 0;
+        this.updateNegativeAndZeroFlags(result);
+        return result;
+    }
+
+    /**
+     * # Rotate Right
+     * 
+     * Used for rotating data *one* bit right through the **carry** flag.
+     */
+    protected rotateRight(data: byte): byte {
+        let result = byte((data >> 1) | (this.carryFlag << 7));
+        this.carryFlag = byte.get(data, 0)? 1 : 0;
+        this.updateNegativeAndZeroFlags(result);
+        return result;
     }
 
     //---------------------------------------------------------------------------------
-    //      Program Counter
+    //      Unstable
     //---------------------------------------------------------------------------------
 
     /**
-     * # Addressing Program Counter
+     * # Store High Byte *AND*
      * 
-     * Used for easily setting the **address bus** to **program counter**.
+     * Used by the unstable store operations, where data is *AND*'ed with the high order *eight* bits of the address
+     * before indexing plus *one*, which still is on the **internal data bus**, unless the processor was halted by the
+     * **ready** line before the clock cycle ahead of the write.
+     * 
+     * When a page is crossed the stored value also becomes the high order *eight* bits of the effective address.
      */
-    protected addressingProgramCounter(): void {
-        this.log('Setting AB = PC');
-        this.addressBus = this.programCounter;
+    protected storeHighByteAnd(data: byte): void {
+        let high = this.internalDataBus;
+        let pageCrossing = this.internalAddressDataHigh !== high;
+        let value = this.unstable.dropHighByteAnd || this.I_STL? data : data & byte(high + 1);
+
+        if (pageCrossing && this.unstable.pageCrossingGlitch) this.addressBusHigh = value;
+
+        this.dataBus = value;
+        this.write();
     }
 
+    //---------------------------------------------------------------------------------
+    //      Branching
+    //---------------------------------------------------------------------------------
+
     /**
-     * # Set Program Counter
+     * # Branch
      * 
-     * Used for easily setting the **program counter** to **internal address data**.
+     * Used to emulate how the processor takes a branch, with the *offset* on the **internal data bus**.
+     * 
+     * A taken branch adds *one* clock cycle to add the *offset* to **program counter low**, and *one* more when the
+     * destination is on another page, where the processor reads from the wrong page before fixing **program counter high**.
+     * 
+     * The interrupt lines are not polled before the added clock cycle of a taken branch, so when no page is crossed only
+     * the poll done before the *offset* was fetched counts, delaying an interrupt arriving later by *one* instruction.
      */
-    protected setProgramCounter(): void {
-        this.log('Setting PC = AD');
-        this.programCounter = this.internalAddressData;
+    protected branch(condition: boolean): void {
+        if (!condition) return;
+
+        this.branchSequence(this.I_INT? 1 : 0);
     }
 
     /**
-     * # Increment Program Counter
+     * # Branch Sequence
      * 
-     * Used for easily setting the next opcode.
+     * Used by {@link branch} for the added clock cycle of a taken branch, where the poll of the interrupt lines done
+     * before is restored when no page is crossed.
      */
-    protected incrementProgramCounter(): void {
-        this.log('Increment PC++');
-        this.programCounter++;
+    protected branchSequence(polled: bit): void {
+        let T2 = () => {
+            this.addressingProgramCounter();
+            this.fetch();
+
+            let offset = byte.get(this.internalDataBus, 7)? this.internalDataBus - 0x100 : this.internalDataBus;
+            this.internalAddressData = this.programCounter + offset;
+            this.programCounterLow = this.internalAddressDataLow;
+
+            if (this.internalAddressDataHigh !== this.programCounterHigh) this.branchPageCrossingSequence();
+            else this.I_INT = polled === 1;
+        }
+
+        this.addSequence('branch', [polled], T2);
+    }
+
+    /**
+     * # Branch Page Crossing Sequence
+     * 
+     * Used by {@link branchSequence} for the clock cycle fixing the high order *eight* bits of the **program counter**,
+     * when a page is crossed.
+     */
+    protected branchPageCrossingSequence(): void {
+        let T3 = () => {
+            this.addressingProgramCounter();
+            this.fetch();
+            this.programCounterHigh = this.internalAddressDataHigh;
+        }
+
+        this.addSequence('branchPageCrossing', [], T3);
     }
 
     //---------------------------------------------------------------------------------
-    //      Address manupulation
+    //      Read Modify Write
     //---------------------------------------------------------------------------------
 
     /**
-     * # Addressing Internal Address Data
+     * # Is Accumulator Addressing
      * 
-     * Used for easily setting the **address bus** to **internal address data**.
+     * Used by operations that can work on both memory and **accumulator** to know which one the current instruction targets.
      */
-    protected addressingInternalAddressData(): void {
-        this.log('Setting AB = AD');
-        this.addressBus = this.internalAddressData;
+    protected isAccumulatorAddressing(): boolean {
+        return this.addressings[this.internalInstruction] === this.ACU;
     }
 
     /**
-     * # Set Internal Address Data
+     * # Is Implied Addressing
      * 
-     * Used for easily setting the **internal address data** to **program counter**.
+     * Used by operations to know if the current instruction already has performed its read of the next byte.
      */
-    protected setInternalAddressData(): void {
-        this.log('Setting AD = PC');
-        this.internalAddressData = this.programCounter;
+    protected isImpliedAddressing(): boolean {
+        return this.addressings[this.internalInstruction] === this.IMP;
     }
 
     /**
-     * # Increment Address Bus
+     * # Is Read Operation
      * 
-     * Used for easily setting the **address bus** to the next address.
+     * Used by addressings to know if the current instruction only reads from memory, since indexed addressings can
+     * skip the clock cycle fixing the address for those when no page is crossed.
+     * 
+     * Derived from {@link OPCODES}.
      */
-    protected incrementAddressBus(): void {
-        this.log('Increment AB++');
-        this.addressBus++;
+    protected isReadOperation(): boolean {
+        return OPCODES[this.internalInstruction].access === 'read';
+    }
+
+    /**
+     * # Is Write Operation
+     * 
+     * Used by addressings to know if the current instruction only writes to memory, in the clock cycle the operation is
+     * performed, since the processor does not halt on write cycles.
+     * 
+     * Derived from {@link OPCODES}.
+     */
+    protected isWriteOperation(): boolean {
+        return OPCODES[this.internalInstruction].access === 'write';
+    }
+
+    /**
+     * # Read Modify Write
+     * 
+     * Used to emulate how the processor reads memory, writes the unmodified data back while modifying it, and then
+     * writes the modified data, taking *two* extra clock cycles.
+     * 
+     * The read is already done when replaying the sequences, so it is left out to not access memory again.
+     */
+    protected readModifyWrite(modify: (data: byte) => byte): void {
+        if (!this.isReplaying) {
+            this.fetch();
+            this.setInternalDataBus();
+        }
+
+        let T1 = () => {
+            this.write();
+            this.internalDataBus = modify.call(this, this.internalDataBus);
+        }
+        let T2 = () => {
+            this.loadInternalDataBus();
+            this.write();
+        }
+
+        this.addSequence('operation', [], this.writeCycle(T1), this.writeCycle(T2));
+    }
+
+    /**
+     * # Modify Accumulator or Memory
+     * 
+     * Used by operations that either work on the **accumulator** or as a {@link readModifyWrite} on memory.
+     */
+    protected modifyAccumulatorOrMemory(modify: (data: byte) => byte): void {
+        if (this.isAccumulatorAddressing()) {
+            this.accumulator = modify.call(this, this.accumulator);
+            return;
+        }
+
+        this.readModifyWrite(modify);
     }
 
     //---------------------------------------------------------------------------------
     //      Sequence
     //---------------------------------------------------------------------------------
 
-    protected addSequence(...callbacks: SequenceFunction[]): void {
+    /**
+     * # Write Cycle
+     * 
+     * Used to mark a sequence as a write cycle.
+     */
+    protected writeCycle(sequence: SequenceFunction): SequenceFunction {
+        this.writeCycles.add(sequence);
+        return sequence;
+    }
+
+    /**
+     * # Operation Cycle
+     * 
+     * Used to mark the sequence performing the operation as a write cycle, when the operation writes to memory.
+     */
+    protected operationCycle(sequence: SequenceFunction): SequenceFunction {
+        return this.isWriteOperation()? this.writeCycle(sequence) : sequence;
+    }
+
+    /**
+     * # Is Write Cycle
+     * 
+     * Used to know if the next sequence is a write cycle, where loading the next instruction always is a read cycle.
+     */
+    protected isWriteCycle(): boolean {
+        return this.sequences.length !== 0 && this.writeCycles.has(this.sequences[0]);
+    }
+
+    /**
+     * # Add Sequence
+     * 
+     * Used to add the clock cycles of a routine in front of the sequences, telling the routine and its arguments so
+     * {@link replaySequence} can add them again when a state is restored.
+     * 
+     * A routine is called again when replaying, so everything else it does, like accessing the bus or changing a
+     * register, has to be done within its clock cycles, or be left out while {@link isReplaying} as
+     * {@link readModifyWrite} does.
+     */
+    protected addSequence(routine: SequenceRoutine, args: number[], ...callbacks: SequenceFunction[]): void {
         for(let index = callbacks.length - 1; index >= 0; index--) {
             let sequence = callbacks[index];
+            this.sequenceStates.set(sequence, { routine: routine, args: args, cycle: index });
             this.logAction('Push', '', 'Sequence', sequence);
             this.sequences = [sequence, ... this.sequences];
         }
     }
 
+    /**
+     * # Replay Sequence
+     * 
+     * Used to restore a sequence from its state, by calling the routine that added it once more and picking the
+     * clock cycle from the ones it adds.
+     * 
+     * ## - Throws
+     * 
+     * A {@link StateError} when the routine changes the registers or pins, see {@link addSequence}.
+     */
+    protected replaySequence(state: SequenceState): SequenceFunction {
+        let sequences = this.sequences;
+        let before = JSON.stringify([this.registers, this.pins]);
+
+        this.sequences = [];
+        this.isReplaying = true;
+        this.routines[state.routine].apply(this, state.args);
+        let sequence = this.sequences[state.cycle] || this.___;
+        this.isReplaying = false;
+        this.sequences = sequences;
+
+        if (JSON.stringify([this.registers, this.pins]) !== before) {
+            throw new StateError('The ' + state.routine + ' routine changed the processor while its sequences were replayed');
+        }
+
+        return sequence;
+    }
+
     protected nextSequence(): SequenceFunction {
-        let sequence = this.sequences.pop() || this.___;
+        let sequence = this.sequences.shift() || this.___;
         this.logAction('Pop', '', 'Sequence', sequence);
         return sequence;
     }
@@ -862,7 +2394,10 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | ± | ± | . | . | . | . | ± | ± |
      */
-    protected ADC(): void {}
+    protected ADC(): void {
+        this.fetch();
+        this.addWithCarry(this.dataBus);
+    }
 
     /**
      * # *AND* Memory with Accumulator
@@ -873,7 +2408,11 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | ± | . | . | . | . | . | ± | . |
      */
-    protected AND(): void {}
+    protected AND(): void {
+        this.fetch();
+        this.accumulator = this.accumulator & this.dataBus;
+        this.updateNegativeAndZeroFlags(this.accumulator);
+    }
 
     /**
      * # Store Accumulator in Memory and Transfer Index X to Accumulator
@@ -884,11 +2423,15 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | . | . | . | . | . | 0 | . |
+     * | ± | . | . | . | . | . | ± | . |
      * 
      * @alias XAA
      */
-    protected ANE(): void {}
+    protected ANE(): void {
+        this.fetch();
+        this.accumulator = (this.accumulator | this.unstable.magicANE) & this.indexX & this.dataBus;
+        this.updateNegativeAndZeroFlags(this.accumulator);
+    }
 
     /**
      * # *AND* Memory with Accumulator and Shift left *One* Bit
@@ -899,11 +2442,16 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | . | . | . | . | . | 0 | 0 |
+     * | ± | . | . | . | . | . | ± | ± |
      * 
      * @alias ANC
      */
-    protected ANS(): void {}
+    protected ANS(): void {
+        this.fetch();
+        this.accumulator = this.accumulator & this.dataBus;
+        this.updateNegativeAndZeroFlags(this.accumulator);
+        this.carryFlag = this.negativeFlag;
+    }
 
     /**
      * # *AND* Memory with Accumulator and Rotate *One* Bit Left
@@ -912,13 +2460,21 @@ export class cpu6510 {
      * 
      * Combination of {@link AND} **Immediate** and {@link ROL} **Implied**.
      * 
+     * The **carry** flag receives the left most bit of the result, as {@link ROL} would shift it out, but the
+     * **accumulator** is not rotated.
+     * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | . | . | . | . | . | 0 | 0 |
+     * | ± | . | . | . | . | . | ± | ± |
      * 
      * @alias ANC
      */
-    protected ANR(): void {}
+    protected ANR(): void {
+        this.fetch();
+        this.accumulator = this.accumulator & this.dataBus;
+        this.updateNegativeAndZeroFlags(this.accumulator);
+        this.carryFlag = this.negativeFlag;
+    }
 
     /**
      * # *AND* Memory with Accumulator and Rotate *One* Bit Right
@@ -929,9 +2485,32 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | 0 | . | . | ? | . | 0 | ± |
+     * | ± | ± | . | . | . | . | ± | ± |
      */
-    protected ARR(): void {}
+    protected ARR(): void {
+        this.fetch();
+
+        let data = this.accumulator & this.dataBus;
+        let result = (data >> 1) | (this.carryFlag << 7);
+
+        this.updateNegativeAndZeroFlags(result);
+
+        if (!this.decimalFlag) {
+            this.carryFlag = byte.get(result, 6)? 1 : 0;
+            this.overflowFlag = (byte.get(result, 6) !== byte.get(result, 5))? 1 : 0;
+            this.accumulator = result;
+            return;
+        }
+
+        this.overflowFlag = ((data ^ result) & 0x40)? 1 : 0;
+
+        if ((data & 0x0F) + (data & 0x01) > 0x05) result = (result & 0xF0) | ((result + 0x06) & 0x0F);
+
+        this.carryFlag = (data & 0xF0) + (data & 0x10) > 0x50? 1 : 0;
+        if (this.carryFlag) result = (result & 0x0F) | ((result + 0x60) & 0xF0);
+
+        this.accumulator = result;
+    }
 
     /**
      * # Shift left *One* Bit (Memory or Accumulator)
@@ -940,9 +2519,11 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | ± |
      */
-    protected ASL(): void {}
+    protected ASL(): void {
+        this.modifyAccumulatorOrMemory(this.shiftLeft);
+    }
 
     /**
      * # *AND* Memory with Accumulator and Shift *One* Bit Right
@@ -953,11 +2534,14 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | . | . | . | . | . | 0 | 0 |
+     * | ± | . | . | . | . | . | ± | ± |
      * 
      * @alias ALR
      */
-    protected ASR(): void {}
+    protected ASR(): void {
+        this.fetch();
+        this.accumulator = this.shiftRight(this.accumulator & this.dataBus);
+    }
 
     /**
      * # Branch on Carry *Clear*
@@ -968,7 +2552,9 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected BCC(): void {}
+    protected BCC(): void {
+        this.branch(this.carryFlag === 0);
+    }
 
     /**
      * # Branch on Carry *Set*
@@ -979,7 +2565,9 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected BCS(): void {}
+    protected BCS(): void {
+        this.branch(this.carryFlag === 1);
+    }
 
     /**
      * # Branch on Result *Zero*
@@ -990,7 +2578,9 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected BEQ(): void {}
+    protected BEQ(): void {
+        this.branch(this.zeroFlag === 1);
+    }
 
     /**
      * # Test Bits in Memory with Accumulator
@@ -999,9 +2589,14 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | M7 | M6 | . | . | . | . | ± | . |
      */
-    protected BIT(): void {}
+    protected BIT(): void {
+        this.fetch();
+        this.negativeFlag = byte.get(this.dataBus, 7)? 1 : 0;
+        this.overflowFlag = byte.get(this.dataBus, 6)? 1 : 0;
+        this.zeroFlag = (this.accumulator & this.dataBus) === 0? 1 : 0;
+    }
 
     /**
      * # Branch on Result *Minus*
@@ -1012,7 +2607,9 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected BMI(): void {}
+    protected BMI(): void {
+        this.branch(this.negativeFlag === 1);
+    }
 
     /**
      * # Branch on Result not *Zero*
@@ -1023,7 +2620,9 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected BNE(): void {}
+    protected BNE(): void {
+        this.branch(this.zeroFlag === 0);
+    }
 
     /**
      * # Branch on Result *Plus*
@@ -1034,7 +2633,9 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected BPL(): void {}
+    protected BPL(): void {
+        this.branch(this.negativeFlag === 0);
+    }
 
     /**
      * # Force *Break*
@@ -1043,9 +2644,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | . | . | . | . | . | 1 | . | . |
      */
-    protected BRK(): void {}
+    protected BRK(): void {
+        this.incrementProgramCounter();
+        this.interruptSequence(1);
+    }
 
     /**
      * # Branch on Overflow *Clear*
@@ -1056,7 +2660,9 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected BVC(): void {}
+    protected BVC(): void {
+        this.branch(this.overflowFlag === 0);
+    }
 
     /**
      * # Branch on Overflow *Set*
@@ -1067,7 +2673,9 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected BVS(): void {}
+    protected BVS(): void {
+        this.branch(this.overflowFlag === 1);
+    }
 
     /**
      * # *Clear* Carry Flag
@@ -1076,9 +2684,11 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | . | . | . | . | . | . | . | 0 |
      */
-    protected CLC(): void {}
+    protected CLC(): void {
+        this.carryFlag = 0;
+    }
 
     /**
      * # *Clear* Decimal Mode
@@ -1087,9 +2697,11 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | . | . | . | . | 0 | . | . | . |
      */
-    protected CLD(): void {}
+    protected CLD(): void {
+        this.decimalFlag = 0;
+    }
 
     /**
      * # *Clear* Interrupt Disable Status
@@ -1098,9 +2710,13 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | . | . | . | . | . | 0 | . | . |
+     * 
+     * See {@link pollInterrupts} for when clearing the **interrupt** flag takes effect.
      */
-    protected CLI(): void {}
+    protected CLI(): void {
+        this.interruptFlag = 0;
+    }
 
     /**
      * # *Clear* Overflow Flag
@@ -1109,9 +2725,11 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | . | 0 | . | . | . | . | . | . |
      */
-    protected CLV(): void {}
+    protected CLV(): void {
+        this.overflowFlag = 0;
+    }
 
     /**
      * # Compare Memory and Accumulator
@@ -1120,9 +2738,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | ± |
      */
-    protected CMP(): void {}
+    protected CMP(): void {
+        this.fetch();
+        this.compare(this.accumulator, this.dataBus);
+    }
 
     /**
      * # Compare Memory and Index X
@@ -1131,9 +2752,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | ± |
      */
-    protected CPX(): void {}
+    protected CPX(): void {
+        this.fetch();
+        this.compare(this.indexX, this.dataBus);
+    }
 
     /**
      * # Compare Memory and Index Y
@@ -1142,9 +2766,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | ± |
      */
-    protected CPY(): void {}
+    protected CPY(): void {
+        this.fetch();
+        this.compare(this.indexY, this.dataBus);
+    }
 
     /**
      * # Decrement Memory by *One* and Compare Memory and Accumulator
@@ -1155,9 +2782,15 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | . | . | . | . | . | 0 | 0 |
+     * | ± | . | . | . | . | . | ± | ± |
      */
-    protected DCP(): void {}
+    protected DCP(): void {
+        this.readModifyWrite((data) => {
+            let result = byte(data - 1);
+            this.compare(this.accumulator, result);
+            return result;
+        });
+    }
 
     /**
      * # Decrement Memory by *One*
@@ -1166,9 +2799,15 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected DEC(): void {}
+    protected DEC(): void {
+        this.readModifyWrite((data) => {
+            let result = byte(data - 1);
+            this.updateNegativeAndZeroFlags(result);
+            return result;
+        });
+    }
 
     /**
      * # Decrement Index X by *One*
@@ -1177,9 +2816,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected DEX(): void {}
+    protected DEX(): void {
+        this.indexX = this.indexX - 1;
+        this.updateNegativeAndZeroFlags(this.indexX);
+    }
 
     /**
      * # Decrement Index Y by *One*
@@ -1188,9 +2830,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected DEY(): void {}
+    protected DEY(): void {
+        this.indexY = this.indexY - 1;
+        this.updateNegativeAndZeroFlags(this.indexY);
+    }
 
     /**
      * # *Exclusive-or* Memory with Accumulator
@@ -1199,9 +2844,13 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected EOR(): void {}
+    protected EOR(): void {
+        this.fetch();
+        this.accumulator = this.accumulator ^ this.dataBus;
+        this.updateNegativeAndZeroFlags(this.accumulator);
+    }
 
     /**
      * # Increment Memory by *One*
@@ -1210,9 +2859,15 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected INC(): void {}
+    protected INC(): void {
+        this.readModifyWrite((data) => {
+            let result = byte(data + 1);
+            this.updateNegativeAndZeroFlags(result);
+            return result;
+        });
+    }
 
     /**
      * # Increment Index X by *One*
@@ -1221,9 +2876,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected INX(): void {}
+    protected INX(): void {
+        this.indexX = this.indexX + 1;
+        this.updateNegativeAndZeroFlags(this.indexX);
+    }
 
     /**
      * # Increment Index Y by *One*
@@ -1232,9 +2890,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected INY(): void {}
+    protected INY(): void {
+        this.indexY = this.indexY + 1;
+        this.updateNegativeAndZeroFlags(this.indexY);
+    }
 
     /**
      * # Increment Memory by *One* and Subtract Memory from Accumulator with Borrow
@@ -1245,11 +2906,17 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | 0 | . | . | I | . | 0 | X |
+     * | ± | ± | . | . | . | . | ± | ± |
      * 
      * @alias ISC
      */
-    protected ISB(): void {}
+    protected ISB(): void {
+        this.readModifyWrite((data) => {
+            let result = byte(data + 1);
+            this.subtractWithCarry(result);
+            return result;
+        });
+    }
 
     /**
      * # Halt the CPU
@@ -1265,7 +2932,14 @@ export class cpu6510 {
      * @alias HLT
      * @alias KIL
      */
-    protected JAM(): void {}
+    protected JAM(): void {
+        this.addressBus = 0xFFFF;
+        this.dataBus = 0xFF;
+        this.isJammed = true;
+        this.log('Jammed', '0x' + word.toHexadecimal(this.programCounter - 1));
+
+        if (this.onJam && !this.isHolding) this.onJam(word(this.programCounter - 1));
+    }
 
     /**
      * # Jump to *New* Location
@@ -1276,14 +2950,22 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected JMP(): void {}
+    protected JMP(): void {
+        this.setProgramCounter();
+    }
 
     /**
      * # Jump to *New* Location Saving *Return* Address
      * 
      * ## - Operation
+     * 
+     * | N | V | - | B | D | I | Z | C |
+     * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
+     * | . | . | . | . | . | . | . | . |
      */
-    protected JSR(): void {}
+    protected JSR(): void {
+        this.setProgramCounter();
+    }
 
     /**
      * # Load Accumulator with Memory and Load Index X with Memory
@@ -1294,9 +2976,14 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | . | . | . | . | . | 0 | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected LAX(): void {}
+    protected LAX(): void {
+        this.fetch();
+        this.accumulator = this.dataBus;
+        this.indexX = this.dataBus;
+        this.updateNegativeAndZeroFlags(this.accumulator);
+    }
 
     /**
      * # Load Accumulator with Memory
@@ -1305,9 +2992,13 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected LDA(): void {}
+    protected LDA(): void {
+        this.fetch();
+        this.accumulator = this.dataBus;
+        this.updateNegativeAndZeroFlags(this.accumulator);
+    }
 
     /**
      * # Load Index X with Memory
@@ -1316,9 +3007,13 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected LDX(): void {}
+    protected LDX(): void {
+        this.fetch();
+        this.indexX = this.dataBus;
+        this.updateNegativeAndZeroFlags(this.indexX);
+    }
 
     /**
      * # Load Index Y with Memory
@@ -1327,9 +3022,13 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected LDY(): void {}
+    protected LDY(): void {
+        this.fetch();
+        this.indexY = this.dataBus;
+        this.updateNegativeAndZeroFlags(this.indexY);
+    }
 
     /**
      * # Store Memory and Stack Pointer into Accumulator, Index X and Stack Pointer
@@ -1340,12 +3039,18 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | . | . | . | . | . | 0 | . |
+     * | ± | . | . | . | . | . | ± | . |
      * 
      * @alias LAS
      * @alias LAR
      */
-    protected LEA(): void {}
+    protected LEA(): void {
+        this.fetch();
+        this.stackPointer = this.dataBus & this.stackPointer;
+        this.accumulator = this.stackPointer;
+        this.indexX = this.stackPointer;
+        this.updateNegativeAndZeroFlags(this.stackPointer);
+    }
 
     /**
      * # Shift *One* Bit Right (Memory or Accumulator)
@@ -1354,9 +3059,11 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | 0 | . | . | . | . | . | ± | ± |
      */
-    protected LSR(): void {}
+    protected LSR(): void {
+        this.modifyAccumulatorOrMemory(this.shiftRight);
+    }
 
     /**
      * # Load Accumulator with Memory and Transfer Accumulator to Index X
@@ -1367,11 +3074,16 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | . | . | . | . | . | 0 | . |
+     * | ± | . | . | . | . | . | ± | . |
      * 
      * @alias LAX
      */
-    protected LXA(): void {}
+    protected LXA(): void {
+        this.fetch();
+        this.accumulator = (this.accumulator | this.unstable.magicLXA) & this.dataBus;
+        this.indexX = this.accumulator;
+        this.updateNegativeAndZeroFlags(this.accumulator);
+    }
 
     /**
      * # No Operation
@@ -1382,7 +3094,9 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected NOP(): void {}
+    protected NOP(): void {
+        if (!this.isImpliedAddressing()) this.fetch();
+    }
 
     /**
      * # *OR* Memory with Accumulator
@@ -1391,9 +3105,13 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected ORA(): void {}
+    protected ORA(): void {
+        this.fetch();
+        this.accumulator = this.accumulator | this.dataBus;
+        this.updateNegativeAndZeroFlags(this.accumulator);
+    }
 
     /**
      * # Push Accumulator on Stack
@@ -1404,7 +3122,13 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected PHA(): void {}
+    protected PHA(): void {
+        let T2 = () => {
+            this.push(this.accumulator);
+        }
+
+        this.addSequence('operation', [], this.writeCycle(T2));
+    }
 
     /**
      * # Push Processor Status on Stack
@@ -1415,7 +3139,13 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected PHP(): void {}
+    protected PHP(): void {
+        let T2 = () => {
+            this.push(this.statusRegister | 0b00110000);
+        }
+
+        this.addSequence('operation', [], this.writeCycle(T2));
+    }
 
     /**
      * # Pull Accumulator from Stack
@@ -1424,9 +3154,21 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected PLA(): void {}
+    protected PLA(): void {
+        let T2 = () => {
+            this.addressingStackPointer();
+            this.fetch();
+            this.incrementStackPointer();
+        }
+        let T3 = () => {
+            this.accumulator = this.pull();
+            this.updateNegativeAndZeroFlags(this.accumulator);
+        }
+
+        this.addSequence('operation', [], T2, T3);
+    }
 
     /**
      * # Pull Processor Status from Stack
@@ -1435,9 +3177,22 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | ± | . | . | ± | ± | ± | ± |
+     * 
+     * See {@link pollInterrupts} for when pulling the **interrupt** flag takes effect.
      */
-    protected PLP(): void {}
+    protected PLP(): void {
+        let T2 = () => {
+            this.addressingStackPointer();
+            this.fetch();
+            this.incrementStackPointer();
+        }
+        let T3 = () => {
+            this.pullStatusRegister();
+        }
+
+        this.addSequence('operation', [], T2, T3);
+    }
 
     /**
      * # Rotate *One* Bit Left (Memory or Accumulator)
@@ -1446,9 +3201,11 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | ± |
      */
-    protected ROL(): void {}
+    protected ROL(): void {
+        this.modifyAccumulatorOrMemory(this.rotateLeft);
+    }
 
     /**
      * # Rotate *One* Bit Right (Memory or Accumulator)
@@ -1457,9 +3214,11 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | ± |
      */
-    protected ROR(): void {}
+    protected ROR(): void {
+        this.modifyAccumulatorOrMemory(this.rotateRight);
+    }
 
     /**
      * # *Return* from Interrupt
@@ -1468,9 +3227,28 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | ± | . | . | ± | ± | ± | ± |
      */
-    protected RTI(): void {}
+    protected RTI(): void {
+        let T2 = () => {
+            this.addressingStackPointer();
+            this.fetch();
+            this.incrementStackPointer();
+        }
+        let T3 = () => {
+            this.pullStatusRegister();
+            this.incrementStackPointer();
+        }
+        let T4 = () => {
+            this.programCounterLow = this.pull();
+            this.incrementStackPointer();
+        }
+        let T5 = () => {
+            this.programCounterHigh = this.pull();
+        }
+
+        this.addSequence('operation', [], T2, T3, T4, T5);
+    }
 
     /**
      * # *Return* from Subroutine
@@ -1481,7 +3259,27 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected RTS(): void {}
+    protected RTS(): void {
+        let T2 = () => {
+            this.addressingStackPointer();
+            this.fetch();
+            this.incrementStackPointer();
+        }
+        let T3 = () => {
+            this.programCounterLow = this.pull();
+            this.incrementStackPointer();
+        }
+        let T4 = () => {
+            this.programCounterHigh = this.pull();
+        }
+        let T5 = () => {
+            this.addressingProgramCounter();
+            this.fetch();
+            this.incrementProgramCounter();
+        }
+
+        this.addSequence('operation', [], T2, T3, T4, T5);
+    }
 
     /**
      * # Subtract Memory from Accumulator with Borrow
@@ -1492,11 +3290,14 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | 0 | . | . | I | . | 0 | X |
+     * | ± | ± | . | . | . | . | ± | ± |
      * 
      * @alias SBC
      */
-    protected USB(): void {}
+    protected USB(): void {
+        this.fetch();
+        this.subtractWithCarry(this.dataBus);
+    }
 
     /**
      * # Store Accumulator and Index X in Memory at same time
@@ -1509,7 +3310,10 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected SAX(): void {}
+    protected SAX(): void {
+        this.dataBus = this.accumulator & this.indexX;
+        this.write();
+    }
 
     /**
      * # Subtract Memory from Accumulator with Borrow
@@ -1518,9 +3322,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | ± | . | . | . | . | ± | ± |
      */
-    protected SBC(): void {}
+    protected SBC(): void {
+        this.fetch();
+        this.subtractWithCarry(this.dataBus);
+    }
 
     /**
      * # *AND* Accumulator with Index X then Subtract Operand and Store in Index X
@@ -1531,11 +3338,16 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | . | . | . | . | . | 0 | 0 |
+     * | ± | . | . | . | . | . | ± | ± |
      * 
      * @alias AXS
      */
-    protected SBX(): void {}
+    protected SBX(): void {
+        this.fetch();
+        let data = this.accumulator & this.indexX;
+        this.compare(data, this.dataBus);
+        this.indexX = data - this.dataBus;
+    }
 
     /**
      * # *Set* Carry Flag
@@ -1544,9 +3356,11 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | . | . | . | . | . | . | . | 1 |
      */
-    protected SEC(): void {}
+    protected SEC(): void {
+        this.carryFlag = 1;
+    }
     /**
      * # *Set* Decimal Mode
      * 
@@ -1554,9 +3368,11 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | . | . | . | . | 1 | . | . | . |
      */
-    protected SED(): void {}
+    protected SED(): void {
+        this.decimalFlag = 1;
+    }
 
     /**
      * # *Set* Interrupt Disable Status
@@ -1565,9 +3381,13 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | . | . | . | . | . | 1 | . | . |
+     * 
+     * See {@link pollInterrupts} for when setting the **interrupt** flag takes effect.
      */
-    protected SEI(): void {}
+    protected SEI(): void {
+        this.interruptFlag = 1;
+    }
 
     /**
      * # Store Accumulator, Index X and Program Counter high order byte in Memory
@@ -1582,7 +3402,9 @@ export class cpu6510 {
      * 
      * @alias AHX
      */
-    protected SHA(): void {}
+    protected SHA(): void {
+        this.storeHighByteAnd(this.accumulator & this.indexX);
+    }
 
     /**
      * # Store Index X and Program Counter high order byte in Memory
@@ -1595,7 +3417,9 @@ export class cpu6510 {
      * 
      * Combination of {@link STA}/{@link STX}/{@link STY}.
      */
-    protected SHX(): void {}
+    protected SHX(): void {
+        this.storeHighByteAnd(this.indexX);
+    }
 
     /**
      * # Store Index Y and Program Counter high order byte in Memory
@@ -1608,26 +3432,34 @@ export class cpu6510 {
      * 
      * Combination of {@link STA}/{@link STX}/{@link STY}.
      */
-    protected SHY(): void {}
+    protected SHY(): void {
+        this.storeHighByteAnd(this.indexY);
+    }
 
     /**
      * # Shift left *One* Bit in Memory then *OR* Accumulator with Memory
      * 
      * ## - Illigal Operation
      * 
-     * The left most bit is shifted into the **carry** flag, then clearing **negative** and **zero** flags.
-     * 
-     * The **carry** flag will always result in being cleared in this operation, since the operation happens on the memory.
+     * The left most bit is shifted into the **carry** flag, then the result is *OR*'ed with the **accumulator** setting the
+     * **negative** and **zero** flags.
      * 
      * Combination of {@link ASL} and {@link ORA}.
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | . | . | . | . | . | 0 | 0 |
+     * | ± | . | . | . | . | . | ± | ± |
      * 
      * @alias ASO
      */
-    protected SLO(): void {}
+    protected SLO(): void {
+        this.readModifyWrite((data) => {
+            let result = this.shiftLeft(data);
+            this.accumulator = this.accumulator | result;
+            this.updateNegativeAndZeroFlags(this.accumulator);
+            return result;
+        });
+    }
 
     /**
      * # Store Accumulator in Memory
@@ -1638,7 +3470,10 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected STA(): void {}
+    protected STA(): void {
+        this.dataBus = this.accumulator;
+        this.write();
+    }
 
     /**
      * # Store Index X in Memory
@@ -1649,7 +3484,10 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected STX(): void {}
+    protected STX(): void {
+        this.dataBus = this.indexX;
+        this.write();
+    }
 
     /**
      * # Store Index Y in Memory
@@ -1660,7 +3498,10 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected STY(): void {}
+    protected STY(): void {
+        this.dataBus = this.indexY;
+        this.write();
+    }
 
     /**
      * # Shift *One* Bit Right Memory and Exclusive-or Memory with Accumulator
@@ -1671,11 +3512,18 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | . | . | . | . | . | 0 | 0 |
+     * | ± | . | . | . | . | . | ± | ± |
      * 
      * @alias LSE
      */
-    protected SRE(): void {}
+    protected SRE(): void {
+        this.readModifyWrite((data) => {
+            let result = this.shiftRight(data);
+            this.accumulator = this.accumulator ^ result;
+            this.updateNegativeAndZeroFlags(this.accumulator);
+            return result;
+        });
+    }
 
     /**
      * # Store Accumulator and Index X into Stack Pointer and Accumulator, Index X and high order byte into Memory
@@ -1688,7 +3536,10 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected TAS(): void {}
+    protected TAS(): void {
+        this.stackPointer = this.accumulator & this.indexX;
+        this.storeHighByteAnd(this.stackPointer);
+    }
 
     /**
      * # Transfer Accumulator to Index X
@@ -1697,9 +3548,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected TAX(): void {}
+    protected TAX(): void {
+        this.indexX = this.accumulator;
+        this.updateNegativeAndZeroFlags(this.indexX);
+    }
 
     /**
      * # Transfer Accumulator to Index Y
@@ -1708,9 +3562,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected TAY(): void {}
+    protected TAY(): void {
+        this.indexY = this.accumulator;
+        this.updateNegativeAndZeroFlags(this.indexY);
+    }
 
     /**
      * # Transfer Stack Pointer to Index X
@@ -1719,9 +3576,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected TSX(): void {}
+    protected TSX(): void {
+        this.indexX = this.stackPointer;
+        this.updateNegativeAndZeroFlags(this.indexX);
+    }
 
     /**
      * # Transfer Index X to Accumulator
@@ -1730,9 +3590,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected TXA(): void {}
+    protected TXA(): void {
+        this.accumulator = this.indexX;
+        this.updateNegativeAndZeroFlags(this.accumulator);
+    }
 
     /**
      * # Transfer Index X to Stack Pointer
@@ -1743,7 +3606,9 @@ export class cpu6510 {
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
      * | . | . | . | . | . | . | . | . |
      */
-    protected TXS(): void {}
+    protected TXS(): void {
+        this.stackPointer = this.indexX;
+    }
 
     /**
      * # Transfer Index Y to Accumulator
@@ -1752,9 +3617,12 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | . | . | . | . | . | . | . | . |
+     * | ± | . | . | . | . | . | ± | . |
      */
-    protected TYA(): void {}
+    protected TYA(): void {
+        this.accumulator = this.indexY;
+        this.updateNegativeAndZeroFlags(this.accumulator);
+    }
 
     /**
      * # Rotate One Bit Left Memory and AND Memory with Accumulator
@@ -1765,9 +3633,16 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | . | . | . | . | . | 0 | X |
+     * | ± | . | . | . | . | . | ± | ± |
      */
-    protected RLA(): void {}
+    protected RLA(): void {
+        this.readModifyWrite((data) => {
+            let result = this.rotateLeft(data);
+            this.accumulator = this.accumulator & result;
+            this.updateNegativeAndZeroFlags(this.accumulator);
+            return result;
+        });
+    }
 
     /**
      * # Rotate One Bit Right Memory and Add Memory to Accumulator with Carry
@@ -1778,9 +3653,15 @@ export class cpu6510 {
      * 
      * | N | V | - | B | D | I | Z | C |
      * |:-:|:-:|:-:|:-:|:-:|:-:|:-:|:-:|
-     * | 0 | 0 | . | . | I | . | 0 | X |
+     * | ± | ± | . | . | . | . | ± | ± |
      */
-    protected RRA(): void {}
+    protected RRA(): void {
+        this.readModifyWrite((data) => {
+            let result = this.rotateRight(data);
+            this.addWithCarry(result);
+            return result;
+        });
+    }
 
     //---------------------------------------------------------------------------------
     //      Addressings
@@ -1797,10 +3678,11 @@ export class cpu6510 {
         let operation = this.operations[this.internalInstruction];
         let T1 = () => {
             this.addressingProgramCounter();
-            operation();
+            this.fetch();
+            operation.call(this);
         }
 
-        this.addSequence(T1);
+        this.addSequence('addressing', [], T1);
     }
 
     /**
@@ -1816,10 +3698,10 @@ export class cpu6510 {
         let T1 = () => {
             this.addressingProgramCounter();
             this.incrementProgramCounter();
-            operation();
+            operation.call(this);
         }
 
-        this.addSequence(T1);
+        this.addSequence('addressing', [], T1);
     }
 
     /**
@@ -1834,10 +3716,11 @@ export class cpu6510 {
         let operation = this.operations[this.internalInstruction];
         let T1 = () => {
             this.addressingProgramCounter();
-            operation();
+            this.fetch();
+            operation.call(this);
         }
 
-        this.addSequence(T1);
+        this.addSequence('addressing', [], T1);
     }
 
     /**
@@ -1868,10 +3751,76 @@ export class cpu6510 {
         let T3 = () => {
             this.internalAddressDataHigh = this.internalDataBus;
             this.addressingInternalAddressData();
-            operation();
+            operation.call(this);
+        }
+
+        this.addSequence('addressing', [], T1, T2, this.operationCycle(T3));
+    }
+
+    /**
+     * # Absolute Jump
+     * 
+     * ## - Addressing
+     * 
+     * This form of **absolute** addressing is used only by {@link JMP}, where the effective address is loaded into the
+     * **program counter** in the same clock cycle as the *third* byte of the instruction is fetched.
+     */
+    protected ABJ(): void {
+        let operation = this.operations[this.internalInstruction];
+        let T1 = () => {
+            this.addressingProgramCounter();
+            this.incrementProgramCounter();
+            this.fetch();
+            this.setInternalDataBus();
+        }
+        let T2 = () => {
+            this.internalAddressDataLow = this.internalDataBus;
+            this.addressingProgramCounter();
+            this.fetch();
+            this.setInternalDataBus();
+            this.internalAddressDataHigh = this.internalDataBus;
+            operation.call(this);
+        }
+
+        this.addSequence('addressing', [], T1, T2);
+    }
+
+    /**
+     * # Absolute Subroutine
+     * 
+     * ## - Addressing
+     * 
+     * This form of **absolute** addressing is used only by {@link JSR}, where the processor pushes the **program counter**
+     * on the stack between fetching the *second* and *third* byte of the instruction.
+     */
+    protected SUB(): void {
+        let operation = this.operations[this.internalInstruction];
+        let T1 = () => {
+            this.addressingProgramCounter();
+            this.incrementProgramCounter();
+            this.fetch();
+            this.setInternalDataBus();
+        }
+        let T2 = () => {
+            this.internalAddressDataLow = this.internalDataBus;
+            this.addressingStackPointer();
+            this.fetch();
+        }
+        let T3 = () => {
+            this.push(this.programCounterHigh);
+        }
+        let T4 = () => {
+            this.push(this.programCounterLow);
+        }
+        let T5 = () => {
+            this.addressingProgramCounter();
+            this.fetch();
+            this.setInternalDataBus();
+            this.internalAddressDataHigh = this.internalDataBus;
+            operation.call(this);
         }
 
-        this.addSequence(T1, T2, T3);
+        this.addSequence('addressing', [], T1, T2, this.writeCycle(T3), this.writeCycle(T4), T5);
     }
 
     /**
@@ -1906,19 +3855,10 @@ export class cpu6510 {
         }
         let T3 = () => {
             this.internalAddressDataHigh = this.internalDataBus;
-            this.internalAddressData += this.indexX;
-            this.addressingInternalAddressData();
-
-            let pageCrossing: boolean = (this.internalAddressDataHigh << byte.size) !== this.internalDataBus;
-            let T4 = () => {
-                operation();
-            }
-
-            if (!pageCrossing) operation();
-            if (pageCrossing) this.addSequence(T4);
+            this.indexInternalAddressData(operation, this.indexX);
         }
 
-        this.addSequence(T1, T2, T3);
+        this.addSequence('addressing', [], T1, T2, T3);
     }
 
     /**
@@ -1953,19 +3893,10 @@ export class cpu6510 {
         }
         let T3 = () => {
             this.internalAddressDataHigh = this.internalDataBus;
-            this.internalAddressData += this.indexY;
-            this.addressingInternalAddressData();
-
-            let pageCrossing: boolean = (this.internalAddressDataHigh << byte.size) !== this.internalDataBus;
-            let T4 = () => {
-                operation();
-            }
-
-            if (!pageCrossing) operation();
-            if (pageCrossing) this.addSequence(T4);
+            this.indexInternalAddressData(operation, this.indexY);
         }
 
-        this.addSequence(T1, T2, T3);
+        this.addSequence('addressing', [], T1, T2, T3);
     }
 
     /**
@@ -1989,10 +3920,10 @@ export class cpu6510 {
         let T2 = () => {
             this.internalAddressDataLow = this.internalDataBus;
             this.addressingInternalAddressData();
-            operation();
+            operation.call(this);
         }
 
-        this.addSequence(T1, T2);
+        this.addSequence('addressing', [], T1, this.operationCycle(T2));
     }
 
     /**
@@ -2025,10 +3956,10 @@ export class cpu6510 {
         let T3 = () => {
             this.internalAddressDataLow += this.indexX;
             this.addressingInternalAddressData();
-            operation();
+            operation.call(this);
         }
 
-        this.addSequence(T1, T2, T3);
+        this.addSequence('addressing', [], T1, T2, this.operationCycle(T3));
     }
 
     /**
@@ -2061,10 +3992,10 @@ export class cpu6510 {
         let T3 = () => {
             this.internalAddressDataLow += this.indexY;
             this.addressingInternalAddressData();
-            operation();
+            operation.call(this);
         }
 
-        this.addSequence(T1, T2, T3);
+        this.addSequence('addressing', [], T1, T2, this.operationCycle(T3));
     }
 
     /**
@@ -2103,17 +4034,17 @@ export class cpu6510 {
         }
         let T4 = () => {
             this.internalAddressDataLow = this.internalDataBus;
-            this.incrementAddressBus();
+            this.incrementAddressBusLow();
             this.fetch();
             this.setInternalDataBus();
         }
         let T5 = () => {
             this.internalAddressDataHigh = this.internalDataBus;
             this.addressingInternalAddressData();
-            operation();
+            operation.call(this);
         }
 
-        this.addSequence(T1, T2, T3, T4, T5);
+        this.addSequence('addressing', [], T1, T2, T3, T4, this.operationCycle(T5));
     }
 
     /**
@@ -2146,25 +4077,61 @@ export class cpu6510 {
         }
         let T3 = () => {
             this.internalAddressDataLow = this.internalDataBus;
-            this.incrementAddressBus();
+            this.incrementAddressBusLow();
             this.fetch();
             this.setInternalDataBus();
         }
         let T4 = () => {
             this.internalAddressDataHigh = this.internalDataBus;
-            this.internalAddressData += this.indexY;
-            this.addressingInternalAddressData();
+            this.indexInternalAddressData(operation, this.indexY);
+        }
 
-            let pageCrossing: boolean = (this.internalAddressDataHigh << byte.size) !== this.internalDataBus;
-            let T5 = () => {
-                operation();
-            }
+        this.addSequence('addressing', [], T1, T2, T3, T4);
+    }
 
-            if (!pageCrossing) operation();
-            if (pageCrossing) this.addSequence(T5);
+    /**
+     * # Indirect
+     * 
+     * ## - Addressing
+     * 
+     * **Indirect** addressing is used only with {@link JMP}, where the *second* and *third* byte of the instruction
+     * points to a memory location whose contents is the low order *eight* bits of the effective address.
+     * 
+     * The next memory location contains the high order *eight* bits of the effective address, but since the processor
+     * does not carry into the high order *eight* bits of the pointer, a pointer at the end of a page, like *$xxFF*, will
+     * fetch the high order *eight* bits from the start of that same page.
+     */
+    protected IND(): void {
+        let operation = this.operations[this.internalInstruction];
+        let T1 = () => {
+            this.addressingProgramCounter();
+            this.incrementProgramCounter();
+            this.fetch();
+            this.setInternalDataBus();
+        }
+        let T2 = () => {
+            this.internalAddressDataLow = this.internalDataBus;
+            this.addressingProgramCounter();
+            this.incrementProgramCounter();
+            this.fetch();
+            this.setInternalDataBus();
+        }
+        let T3 = () => {
+            this.internalAddressDataHigh = this.internalDataBus;
+            this.addressingInternalAddressData();
+            this.fetch();
+            this.setInternalDataBus();
+        }
+        let T4 = () => {
+            this.internalAddressDataLow = this.internalDataBus;
+            this.incrementAddressBusLow();
+            this.fetch();
+            this.setInternalDataBus();
+            this.internalAddressDataHigh = this.internalDataBus;
+            operation.call(this);
         }
 
-        this.addSequence(T1, T2, T3, T4);
+        this.addSequence('addressing', [], T1, T2, T3, T4);
     }
 
     /**
@@ -2186,8 +4153,8 @@ export class cpu6510 {
             this.incrementProgramCounter();
             this.fetch();
             this.setInternalDataBus();
-            operation();
+            operation.call(this);
         }
-        this.addSequence(T1);
+        this.addSequence('addressing', [], T1);
     }
 }
\ No newline at end of file
@@ -0,0 +1,205 @@
+//#################################################################################
+//#     Title:  Disassembler 6510
+//#     Author: Delta Thiesen <delta.thiesen.1990@gmail.com>
+//#################################################################################
+//#     Sources:
+//#         - https://www.masswerk.at/6502/6502_instruction_set.html
+//#         - https://codebase64.org/lib/exe/fetch.php?media=base:nomoresecrets-nmos6510unintendedopcodes-20202412.pdf
+//#################################################################################
+
+//#################################################################################
+//#
+//#     IMPORTS
+//#
+//#################################################################################
+
+import { byte, word } from "@hulle107/libslm-binary";
+import { MemoryLike } from "./cpu6510";
+import { Mnemonic, Opcode, OPCODES } from "./opcodes";
+
+//#################################################################################
+//#
+//#     TYPES
+//#
+//#################################################################################
+
+export type Labels = Record<number, string>;
+
+//#################################################################################
+//#
+//#     INTERFACES
+//#
+//#################################################################################
+
+/**
+ * # Disassembler Options
+ */
+export interface DisassemblerOptions {
+    /**
+     * Names used instead of addresses in operands, and told for the instructions at those addresses.
+     */
+    labels: Labels;
+
+    /**
+     * The address of the *first* byte when disassembling a byte array.
+     */
+    origin: word;
+}
+
+/**
+ * # Disassembled Line
+ * 
+ * A disassembled instruction, where {@link text} is written as `$C000  A9 01     LDA #$01`, see {@link formatLine}.
+ */
+export interface DisassembledLine {
+    address: word;
+    bytes: byte[];
+    mnemonic: Mnemonic;
+    operand: string;
+    opcode: Readonly<Opcode>;
+
+    /**
+     * The label of the address of the instruction, when one is given.
+     */
+    label?: string;
+
+    text: string;
+}
+
+//#################################################################################
+//#
+//#     CONSTANTS
+//#
+//#################################################################################
+
+const OPTIONS_DEFUALT: DisassemblerOptions = {
+    labels: {},
+    origin: word(0),
+};
+
+const BYTES_COLUMN_WIDTH = 8;
+const ILLEGAL_MARKER = '*';
+
+//#################################################################################
+//#
+//#     PUBLIC FUNCTIONS
+//#
+//#################################################################################
+
+/**
+ * # Disassemble
+ * 
+ * Disassembles the instructions from the *start* address up to the *end* address, where the last instruction may read
+ * bytes past the *end* address.
+ * 
+ * Memory is read through {@link MemoryLike.peek}, or through {@link MemoryLike.read} when the memory has no peek, where
+ * reading I/O registers may have side effects.
+ */
+export function disassemble(source: MemoryLike | ArrayLike<number>, start: word, end: number, options: Partial<DisassemblerOptions> = {}): DisassembledLine[] {
+    let settings: DisassemblerOptions = { ...OPTIONS_DEFUALT, ...options };
+    let read = reader(source, settings.origin);
+    let lines: DisassembledLine[] = [];
+
+    for (let address = start; address < end;) {
+        let line = disassembleInstruction(read, word(address), settings.labels);
+        lines.push(line);
+        address += line.bytes.length;
+    }
+
+    return lines;
+}
+
+/**
+ * # Disassemble Instruction
+ * 
+ * Disassembles the *one* instruction at the address.
+ */
+export function disassembleInstruction(source: MemoryLike | ArrayLike<number> | ((address: word) => byte), address: word, labels: Labels = {}): DisassembledLine {
+    let read = typeof source === 'function'? source : reader(source, OPTIONS_DEFUALT.origin);
+    let opcode = OPCODES[read(address)];
+    let bytes: byte[] = [];
+
+    for (let index = 0; index < opcode.bytes; index++) bytes.push(read(word(address + index)));
+
+    let operand = formatOperand(opcode, address, bytes, labels);
+    let line: DisassembledLine = {
+        address: address,
+        bytes: bytes,
+        mnemonic: opcode.mnemonic,
+        operand: operand,
+        opcode: opcode,
+        text: '',
+    };
+
+    if (labels[address] !== undefined) line.label = labels[address];
+    line.text = formatLine(line);
+
+    return line;
+}
+
+/**
+ * # Format Line
+ * 
+ * Formats a disassembled instruction as `$C000  A9 01     LDA #$01`, where illegal and unstable operations are marked
+ * by a `*` in front of the mnemonic, as `$C000  EB 01    *SBC #$01`.
+ */
+export function formatLine(line: DisassembledLine): string {
+    let address = '$' + word.toHexadecimal(line.address);
+    let bytes = line.bytes.map((data) => byte.toHexadecimal(data)).join(' ');
+    let instruction = line.operand === ''? line.mnemonic : line.mnemonic + ' ' + line.operand;
+
+    let marker = line.opcode.status === 'legal'? ' ' : ILLEGAL_MARKER;
+
+    return address + '  ' + padEnd(bytes, BYTES_COLUMN_WIDTH) + ' ' + marker + instruction;
+}
+
+//#################################################################################
+//#
+//#     PRIVATE FUNCTIONS
+//#
+//#################################################################################
+
+function reader(source: MemoryLike | ArrayLike<number>, origin: word): (address: word) => byte {
+    if (isMemoryLike(source)) return (address) => byte(source.peek? source.peek(address) : source.read(address));
+    return (address) => byte(source[word(address - origin)] || 0);
+}
+
+function isMemoryLike(source: MemoryLike | ArrayLike<number>): source is MemoryLike {
+    return typeof (source as MemoryLike).read === 'function';
+}
+
+function formatOperand(opcode: Readonly<Opcode>, address: word, bytes: byte[], labels: Labels): string {
+    let zeroPage = () => formatAddress(bytes[1], true, labels);
+    let absolute = () => formatAddress(word((bytes[2] << byte.size) + bytes[1]), false, labels);
+
+    switch (opcode.addressing) {
+        case 'ACU': return 'A';
+        case 'IMP': return '';
+        case 'IMM': return '#$' + byte.toHexadecimal(bytes[1]);
+        case 'ZPG': return zeroPage();
+        case 'ZPX': return zeroPage() + ',X';
+        case 'ZPY': return zeroPage() + ',Y';
+        case 'IDX': return '(' + zeroPage() + ',X)';
+        case 'IDY': return '(' + zeroPage() + '),Y';
+        case 'ABS':
+        case 'ABJ':
+        case 'SUB': return absolute();
+        case 'ABX': return absolute() + ',X';
+        case 'ABY': return absolute() + ',Y';
+        case 'IND': return '(' + absolute() + ')';
+        case 'REL': {
+            let offset = byte.get(bytes[1], 7)? bytes[1] - 0x100 : bytes[1];
+            return formatAddress(word(address + 2 + offset), false, labels);
+        }
+    }
+}
+
+function formatAddress(address: word, zeroPage: boolean, labels: Labels): string {
+    if (labels[address] !== undefined) return labels[address];
+    return '$' + (zeroPage? byte.toHexadecimal(address) : word.toHexadecimal(address));
+}
+
+function padEnd(text: string, width: number): string {
+    while (text.length < width) text += ' ';
+    return text;
+}
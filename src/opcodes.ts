@@ -0,0 +1,374 @@
+//#################################################################################
+//#     Title:  Opcodes 6510
+//#     Author: Delta Thiesen <delta.thiesen.1990@gmail.com>
+//#################################################################################
+//#     Sources:
+//#         - https://www.masswerk.at/6502/6502_instruction_set.html
+//#         - https://codebase64.org/lib/exe/fetch.php?media=base:nomoresecrets-nmos6510unintendedopcodes-20202412.pdf
+//#################################################################################
+
+//#################################################################################
+//#
+//#     IMPORTS
+//#
+//#################################################################################
+
+import { byte } from "@hulle107/libslm-binary";
+import { Flags } from "./cpu6510";
+
+//#################################################################################
+//#
+//#     TYPES
+//#
+//#################################################################################
+
+export type Mnemonic =
+    | 'ADC' | 'ANC' | 'AND' | 'ANE' | 'ARR' | 'ASL' | 'ASR' | 'BCC' | 'BCS' | 'BEQ' | 'BIT' | 'BMI' | 'BNE'
+    | 'BPL' | 'BRK' | 'BVC' | 'BVS' | 'CLC' | 'CLD' | 'CLI' | 'CLV' | 'CMP' | 'CPX' | 'CPY' | 'DCP' | 'DEC'
+    | 'DEX' | 'DEY' | 'EOR' | 'INC' | 'INX' | 'INY' | 'ISB' | 'JAM' | 'JMP' | 'JSR' | 'LAS' | 'LAX' | 'LDA'
+    | 'LDX' | 'LDY' | 'LSR' | 'LXA' | 'NOP' | 'ORA' | 'PHA' | 'PHP' | 'PLA' | 'PLP' | 'RLA' | 'ROL' | 'ROR'
+    | 'RRA' | 'RTI' | 'RTS' | 'SAX' | 'SBC' | 'SBX' | 'SEC' | 'SED' | 'SEI' | 'SHA' | 'SHX' | 'SHY' | 'SLO'
+    | 'SRE' | 'STA' | 'STX' | 'STY' | 'TAS' | 'TAX' | 'TAY' | 'TSX' | 'TXA' | 'TXS' | 'TYA';
+
+export type OperationName =
+    | 'ADC' | 'AND' | 'ANE' | 'ANR' | 'ANS' | 'ARR' | 'ASL' | 'ASR' | 'BCC' | 'BCS' | 'BEQ' | 'BIT' | 'BMI'
+    | 'BNE' | 'BPL' | 'BRK' | 'BVC' | 'BVS' | 'CLC' | 'CLD' | 'CLI' | 'CLV' | 'CMP' | 'CPX' | 'CPY' | 'DCP'
+    | 'DEC' | 'DEX' | 'DEY' | 'EOR' | 'INC' | 'INX' | 'INY' | 'ISB' | 'JAM' | 'JMP' | 'JSR' | 'LAX' | 'LDA'
+    | 'LDX' | 'LDY' | 'LEA' | 'LSR' | 'LXA' | 'NOP' | 'ORA' | 'PHA' | 'PHP' | 'PLA' | 'PLP' | 'RLA' | 'ROL'
+    | 'ROR' | 'RRA' | 'RTI' | 'RTS' | 'SAX' | 'SBC' | 'SBX' | 'SEC' | 'SED' | 'SEI' | 'SHA' | 'SHX' | 'SHY'
+    | 'SLO' | 'SRE' | 'STA' | 'STX' | 'STY' | 'TAS' | 'TAX' | 'TAY' | 'TSX' | 'TXA' | 'TXS' | 'TYA' | 'USB';
+
+export type AddressingName = 'ACU' | 'IMM' | 'IMP' | 'ABS' | 'ABJ' | 'SUB' | 'ABX' | 'ABY' | 'ZPG' | 'ZPX' | 'ZPY' | 'IDX' | 'IDY' | 'IND' | 'REL';
+export type OpcodeStatus = 'legal' | 'illegal' | 'unstable';
+export type OpcodeAccess = 'none' | 'read' | 'write' | 'readModifyWrite';
+
+//#################################################################################
+//#
+//#     INTERFACES
+//#
+//#################################################################################
+
+/**
+ * # Opcode
+ * 
+ * What is known about an operation code, where {@link operation} and {@link addressing} names the functions of
+ * {@link cpu6510} performing it.
+ */
+export interface Opcode {
+    opcode: byte;
+
+    /**
+     * The mnemonic used by assemblers, where some illegal operations share a mnemonic with another operation.
+     */
+    mnemonic: Mnemonic;
+
+    operation: OperationName;
+
+    /**
+     * The addressing, where {@link cpu6510.ABJ} and {@link cpu6510.SUB} are **absolute** addressing with the clock
+     * cycles of {@link cpu6510.JMP} and {@link cpu6510.JSR}.
+     */
+    addressing: AddressingName;
+
+    /**
+     * The number of bytes of the instruction, including the operation code.
+     */
+    bytes: number;
+
+    /**
+     * The number of clock cycles when no page is crossed and no branch is taken, *zero* for {@link cpu6510.JAM} which
+     * never completes.
+     */
+    cycles: number;
+
+    /**
+     * The clock cycles added when a page is crossed, where a taken branch adds *one* clock cycle more.
+     */
+    pageCrossing: number;
+
+    /**
+     * How the operation accesses the memory at the address of the addressing, *none* for addressings without one.
+     * 
+     * Only *read* operations skip the clock cycle fixing an indexed address when no page is crossed, which is why only
+     * those have a {@link pageCrossing} penalty, and *write* operations perform their write in the clock cycle of
+     * the operation.
+     */
+    access: OpcodeAccess;
+
+    /**
+     * The flags of the **processor status** the operation can change.
+     */
+    flags: (keyof Flags)[];
+
+    status: OpcodeStatus;
+}
+
+//#################################################################################
+//#
+//#     CONSTANTS
+//#
+//#################################################################################
+
+/**
+ * # Opcode Table
+ * 
+ * All *256* operation codes of the processor in order, which the dispatch of {@link cpu6510} is derived from.
+ */
+export const OPCODES: ReadonlyArray<Readonly<Opcode>> = [
+    { opcode: 0x00, mnemonic: 'BRK', operation: 'BRK', addressing: 'IMP', bytes: 1, cycles: 7, pageCrossing: 0, access: 'none', flags: ['interrupt'], status: 'legal' },
+    { opcode: 0x01, mnemonic: 'ORA', operation: 'ORA', addressing: 'IDX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x02, mnemonic: 'JAM', operation: 'JAM', addressing: 'IMP', bytes: 1, cycles: 0, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x03, mnemonic: 'SLO', operation: 'SLO', addressing: 'IDX', bytes: 2, cycles: 8, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x04, mnemonic: 'NOP', operation: 'NOP', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0x05, mnemonic: 'ORA', operation: 'ORA', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x06, mnemonic: 'ASL', operation: 'ASL', addressing: 'ZPG', bytes: 2, cycles: 5, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x07, mnemonic: 'SLO', operation: 'SLO', addressing: 'ZPG', bytes: 2, cycles: 5, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x08, mnemonic: 'PHP', operation: 'PHP', addressing: 'IMP', bytes: 1, cycles: 3, pageCrossing: 0, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0x09, mnemonic: 'ORA', operation: 'ORA', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x0A, mnemonic: 'ASL', operation: 'ASL', addressing: 'ACU', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x0B, mnemonic: 'ANC', operation: 'ANS', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x0C, mnemonic: 'NOP', operation: 'NOP', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0x0D, mnemonic: 'ORA', operation: 'ORA', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x0E, mnemonic: 'ASL', operation: 'ASL', addressing: 'ABS', bytes: 3, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x0F, mnemonic: 'SLO', operation: 'SLO', addressing: 'ABS', bytes: 3, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x10, mnemonic: 'BPL', operation: 'BPL', addressing: 'REL', bytes: 2, cycles: 2, pageCrossing: 1, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0x11, mnemonic: 'ORA', operation: 'ORA', addressing: 'IDY', bytes: 2, cycles: 5, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x12, mnemonic: 'JAM', operation: 'JAM', addressing: 'IMP', bytes: 1, cycles: 0, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x13, mnemonic: 'SLO', operation: 'SLO', addressing: 'IDY', bytes: 2, cycles: 8, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x14, mnemonic: 'NOP', operation: 'NOP', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0x15, mnemonic: 'ORA', operation: 'ORA', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x16, mnemonic: 'ASL', operation: 'ASL', addressing: 'ZPX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x17, mnemonic: 'SLO', operation: 'SLO', addressing: 'ZPX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x18, mnemonic: 'CLC', operation: 'CLC', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['carry'], status: 'legal' },
+    { opcode: 0x19, mnemonic: 'ORA', operation: 'ORA', addressing: 'ABY', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x1A, mnemonic: 'NOP', operation: 'NOP', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x1B, mnemonic: 'SLO', operation: 'SLO', addressing: 'ABY', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x1C, mnemonic: 'NOP', operation: 'NOP', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0x1D, mnemonic: 'ORA', operation: 'ORA', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x1E, mnemonic: 'ASL', operation: 'ASL', addressing: 'ABX', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x1F, mnemonic: 'SLO', operation: 'SLO', addressing: 'ABX', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x20, mnemonic: 'JSR', operation: 'JSR', addressing: 'SUB', bytes: 3, cycles: 6, pageCrossing: 0, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0x21, mnemonic: 'AND', operation: 'AND', addressing: 'IDX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x22, mnemonic: 'JAM', operation: 'JAM', addressing: 'IMP', bytes: 1, cycles: 0, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x23, mnemonic: 'RLA', operation: 'RLA', addressing: 'IDX', bytes: 2, cycles: 8, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x24, mnemonic: 'BIT', operation: 'BIT', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'overflow', 'zero'], status: 'legal' },
+    { opcode: 0x25, mnemonic: 'AND', operation: 'AND', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x26, mnemonic: 'ROL', operation: 'ROL', addressing: 'ZPG', bytes: 2, cycles: 5, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x27, mnemonic: 'RLA', operation: 'RLA', addressing: 'ZPG', bytes: 2, cycles: 5, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x28, mnemonic: 'PLP', operation: 'PLP', addressing: 'IMP', bytes: 1, cycles: 4, pageCrossing: 0, access: 'none', flags: ['negative', 'overflow', 'decimal', 'interrupt', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x29, mnemonic: 'AND', operation: 'AND', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x2A, mnemonic: 'ROL', operation: 'ROL', addressing: 'ACU', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x2B, mnemonic: 'ANC', operation: 'ANR', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x2C, mnemonic: 'BIT', operation: 'BIT', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'overflow', 'zero'], status: 'legal' },
+    { opcode: 0x2D, mnemonic: 'AND', operation: 'AND', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x2E, mnemonic: 'ROL', operation: 'ROL', addressing: 'ABS', bytes: 3, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x2F, mnemonic: 'RLA', operation: 'RLA', addressing: 'ABS', bytes: 3, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x30, mnemonic: 'BMI', operation: 'BMI', addressing: 'REL', bytes: 2, cycles: 2, pageCrossing: 1, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0x31, mnemonic: 'AND', operation: 'AND', addressing: 'IDY', bytes: 2, cycles: 5, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x32, mnemonic: 'JAM', operation: 'JAM', addressing: 'IMP', bytes: 1, cycles: 0, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x33, mnemonic: 'RLA', operation: 'RLA', addressing: 'IDY', bytes: 2, cycles: 8, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x34, mnemonic: 'NOP', operation: 'NOP', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0x35, mnemonic: 'AND', operation: 'AND', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x36, mnemonic: 'ROL', operation: 'ROL', addressing: 'ZPX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x37, mnemonic: 'RLA', operation: 'RLA', addressing: 'ZPX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x38, mnemonic: 'SEC', operation: 'SEC', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['carry'], status: 'legal' },
+    { opcode: 0x39, mnemonic: 'AND', operation: 'AND', addressing: 'ABY', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x3A, mnemonic: 'NOP', operation: 'NOP', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x3B, mnemonic: 'RLA', operation: 'RLA', addressing: 'ABY', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x3C, mnemonic: 'NOP', operation: 'NOP', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0x3D, mnemonic: 'AND', operation: 'AND', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x3E, mnemonic: 'ROL', operation: 'ROL', addressing: 'ABX', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x3F, mnemonic: 'RLA', operation: 'RLA', addressing: 'ABX', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x40, mnemonic: 'RTI', operation: 'RTI', addressing: 'IMP', bytes: 1, cycles: 6, pageCrossing: 0, access: 'none', flags: ['negative', 'overflow', 'decimal', 'interrupt', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x41, mnemonic: 'EOR', operation: 'EOR', addressing: 'IDX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x42, mnemonic: 'JAM', operation: 'JAM', addressing: 'IMP', bytes: 1, cycles: 0, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x43, mnemonic: 'SRE', operation: 'SRE', addressing: 'IDX', bytes: 2, cycles: 8, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x44, mnemonic: 'NOP', operation: 'NOP', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0x45, mnemonic: 'EOR', operation: 'EOR', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x46, mnemonic: 'LSR', operation: 'LSR', addressing: 'ZPG', bytes: 2, cycles: 5, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x47, mnemonic: 'SRE', operation: 'SRE', addressing: 'ZPG', bytes: 2, cycles: 5, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x48, mnemonic: 'PHA', operation: 'PHA', addressing: 'IMP', bytes: 1, cycles: 3, pageCrossing: 0, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0x49, mnemonic: 'EOR', operation: 'EOR', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x4A, mnemonic: 'LSR', operation: 'LSR', addressing: 'ACU', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x4B, mnemonic: 'ASR', operation: 'ASR', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x4C, mnemonic: 'JMP', operation: 'JMP', addressing: 'ABJ', bytes: 3, cycles: 3, pageCrossing: 0, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0x4D, mnemonic: 'EOR', operation: 'EOR', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x4E, mnemonic: 'LSR', operation: 'LSR', addressing: 'ABS', bytes: 3, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x4F, mnemonic: 'SRE', operation: 'SRE', addressing: 'ABS', bytes: 3, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x50, mnemonic: 'BVC', operation: 'BVC', addressing: 'REL', bytes: 2, cycles: 2, pageCrossing: 1, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0x51, mnemonic: 'EOR', operation: 'EOR', addressing: 'IDY', bytes: 2, cycles: 5, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x52, mnemonic: 'JAM', operation: 'JAM', addressing: 'IMP', bytes: 1, cycles: 0, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x53, mnemonic: 'SRE', operation: 'SRE', addressing: 'IDY', bytes: 2, cycles: 8, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x54, mnemonic: 'NOP', operation: 'NOP', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0x55, mnemonic: 'EOR', operation: 'EOR', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x56, mnemonic: 'LSR', operation: 'LSR', addressing: 'ZPX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x57, mnemonic: 'SRE', operation: 'SRE', addressing: 'ZPX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x58, mnemonic: 'CLI', operation: 'CLI', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['interrupt'], status: 'legal' },
+    { opcode: 0x59, mnemonic: 'EOR', operation: 'EOR', addressing: 'ABY', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x5A, mnemonic: 'NOP', operation: 'NOP', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x5B, mnemonic: 'SRE', operation: 'SRE', addressing: 'ABY', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x5C, mnemonic: 'NOP', operation: 'NOP', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0x5D, mnemonic: 'EOR', operation: 'EOR', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x5E, mnemonic: 'LSR', operation: 'LSR', addressing: 'ABX', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x5F, mnemonic: 'SRE', operation: 'SRE', addressing: 'ABX', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x60, mnemonic: 'RTS', operation: 'RTS', addressing: 'IMP', bytes: 1, cycles: 6, pageCrossing: 0, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0x61, mnemonic: 'ADC', operation: 'ADC', addressing: 'IDX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x62, mnemonic: 'JAM', operation: 'JAM', addressing: 'IMP', bytes: 1, cycles: 0, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x63, mnemonic: 'RRA', operation: 'RRA', addressing: 'IDX', bytes: 2, cycles: 8, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x64, mnemonic: 'NOP', operation: 'NOP', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0x65, mnemonic: 'ADC', operation: 'ADC', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x66, mnemonic: 'ROR', operation: 'ROR', addressing: 'ZPG', bytes: 2, cycles: 5, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x67, mnemonic: 'RRA', operation: 'RRA', addressing: 'ZPG', bytes: 2, cycles: 5, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x68, mnemonic: 'PLA', operation: 'PLA', addressing: 'IMP', bytes: 1, cycles: 4, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x69, mnemonic: 'ADC', operation: 'ADC', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x6A, mnemonic: 'ROR', operation: 'ROR', addressing: 'ACU', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x6B, mnemonic: 'ARR', operation: 'ARR', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x6C, mnemonic: 'JMP', operation: 'JMP', addressing: 'IND', bytes: 3, cycles: 5, pageCrossing: 0, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0x6D, mnemonic: 'ADC', operation: 'ADC', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x6E, mnemonic: 'ROR', operation: 'ROR', addressing: 'ABS', bytes: 3, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x6F, mnemonic: 'RRA', operation: 'RRA', addressing: 'ABS', bytes: 3, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x70, mnemonic: 'BVS', operation: 'BVS', addressing: 'REL', bytes: 2, cycles: 2, pageCrossing: 1, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0x71, mnemonic: 'ADC', operation: 'ADC', addressing: 'IDY', bytes: 2, cycles: 5, pageCrossing: 1, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x72, mnemonic: 'JAM', operation: 'JAM', addressing: 'IMP', bytes: 1, cycles: 0, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x73, mnemonic: 'RRA', operation: 'RRA', addressing: 'IDY', bytes: 2, cycles: 8, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x74, mnemonic: 'NOP', operation: 'NOP', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0x75, mnemonic: 'ADC', operation: 'ADC', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x76, mnemonic: 'ROR', operation: 'ROR', addressing: 'ZPX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x77, mnemonic: 'RRA', operation: 'RRA', addressing: 'ZPX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x78, mnemonic: 'SEI', operation: 'SEI', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['interrupt'], status: 'legal' },
+    { opcode: 0x79, mnemonic: 'ADC', operation: 'ADC', addressing: 'ABY', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x7A, mnemonic: 'NOP', operation: 'NOP', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x7B, mnemonic: 'RRA', operation: 'RRA', addressing: 'ABY', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x7C, mnemonic: 'NOP', operation: 'NOP', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0x7D, mnemonic: 'ADC', operation: 'ADC', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x7E, mnemonic: 'ROR', operation: 'ROR', addressing: 'ABX', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0x7F, mnemonic: 'RRA', operation: 'RRA', addressing: 'ABX', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0x80, mnemonic: 'NOP', operation: 'NOP', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x81, mnemonic: 'STA', operation: 'STA', addressing: 'IDX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x82, mnemonic: 'NOP', operation: 'NOP', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x83, mnemonic: 'SAX', operation: 'SAX', addressing: 'IDX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'write', flags: [], status: 'illegal' },
+    { opcode: 0x84, mnemonic: 'STY', operation: 'STY', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x85, mnemonic: 'STA', operation: 'STA', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x86, mnemonic: 'STX', operation: 'STX', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x87, mnemonic: 'SAX', operation: 'SAX', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'write', flags: [], status: 'illegal' },
+    { opcode: 0x88, mnemonic: 'DEY', operation: 'DEY', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x89, mnemonic: 'NOP', operation: 'NOP', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x8A, mnemonic: 'TXA', operation: 'TXA', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x8B, mnemonic: 'ANE', operation: 'ANE', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'unstable' },
+    { opcode: 0x8C, mnemonic: 'STY', operation: 'STY', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x8D, mnemonic: 'STA', operation: 'STA', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x8E, mnemonic: 'STX', operation: 'STX', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x8F, mnemonic: 'SAX', operation: 'SAX', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'write', flags: [], status: 'illegal' },
+    { opcode: 0x90, mnemonic: 'BCC', operation: 'BCC', addressing: 'REL', bytes: 2, cycles: 2, pageCrossing: 1, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0x91, mnemonic: 'STA', operation: 'STA', addressing: 'IDY', bytes: 2, cycles: 6, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x92, mnemonic: 'JAM', operation: 'JAM', addressing: 'IMP', bytes: 1, cycles: 0, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0x93, mnemonic: 'SHA', operation: 'SHA', addressing: 'IDY', bytes: 2, cycles: 6, pageCrossing: 0, access: 'write', flags: [], status: 'unstable' },
+    { opcode: 0x94, mnemonic: 'STY', operation: 'STY', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x95, mnemonic: 'STA', operation: 'STA', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x96, mnemonic: 'STX', operation: 'STX', addressing: 'ZPY', bytes: 2, cycles: 4, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x97, mnemonic: 'SAX', operation: 'SAX', addressing: 'ZPY', bytes: 2, cycles: 4, pageCrossing: 0, access: 'write', flags: [], status: 'illegal' },
+    { opcode: 0x98, mnemonic: 'TYA', operation: 'TYA', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0x99, mnemonic: 'STA', operation: 'STA', addressing: 'ABY', bytes: 3, cycles: 5, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x9A, mnemonic: 'TXS', operation: 'TXS', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0x9B, mnemonic: 'TAS', operation: 'TAS', addressing: 'ABY', bytes: 3, cycles: 5, pageCrossing: 0, access: 'write', flags: [], status: 'unstable' },
+    { opcode: 0x9C, mnemonic: 'SHY', operation: 'SHY', addressing: 'ABX', bytes: 3, cycles: 5, pageCrossing: 0, access: 'write', flags: [], status: 'unstable' },
+    { opcode: 0x9D, mnemonic: 'STA', operation: 'STA', addressing: 'ABX', bytes: 3, cycles: 5, pageCrossing: 0, access: 'write', flags: [], status: 'legal' },
+    { opcode: 0x9E, mnemonic: 'SHX', operation: 'SHX', addressing: 'ABY', bytes: 3, cycles: 5, pageCrossing: 0, access: 'write', flags: [], status: 'unstable' },
+    { opcode: 0x9F, mnemonic: 'SHA', operation: 'SHA', addressing: 'ABY', bytes: 3, cycles: 5, pageCrossing: 0, access: 'write', flags: [], status: 'unstable' },
+    { opcode: 0xA0, mnemonic: 'LDY', operation: 'LDY', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xA1, mnemonic: 'LDA', operation: 'LDA', addressing: 'IDX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xA2, mnemonic: 'LDX', operation: 'LDX', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xA3, mnemonic: 'LAX', operation: 'LAX', addressing: 'IDX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'illegal' },
+    { opcode: 0xA4, mnemonic: 'LDY', operation: 'LDY', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xA5, mnemonic: 'LDA', operation: 'LDA', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xA6, mnemonic: 'LDX', operation: 'LDX', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xA7, mnemonic: 'LAX', operation: 'LAX', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'illegal' },
+    { opcode: 0xA8, mnemonic: 'TAY', operation: 'TAY', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xA9, mnemonic: 'LDA', operation: 'LDA', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xAA, mnemonic: 'TAX', operation: 'TAX', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xAB, mnemonic: 'LXA', operation: 'LXA', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'unstable' },
+    { opcode: 0xAC, mnemonic: 'LDY', operation: 'LDY', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xAD, mnemonic: 'LDA', operation: 'LDA', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xAE, mnemonic: 'LDX', operation: 'LDX', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xAF, mnemonic: 'LAX', operation: 'LAX', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'illegal' },
+    { opcode: 0xB0, mnemonic: 'BCS', operation: 'BCS', addressing: 'REL', bytes: 2, cycles: 2, pageCrossing: 1, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0xB1, mnemonic: 'LDA', operation: 'LDA', addressing: 'IDY', bytes: 2, cycles: 5, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xB2, mnemonic: 'JAM', operation: 'JAM', addressing: 'IMP', bytes: 1, cycles: 0, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0xB3, mnemonic: 'LAX', operation: 'LAX', addressing: 'IDY', bytes: 2, cycles: 5, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'illegal' },
+    { opcode: 0xB4, mnemonic: 'LDY', operation: 'LDY', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xB5, mnemonic: 'LDA', operation: 'LDA', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xB6, mnemonic: 'LDX', operation: 'LDX', addressing: 'ZPY', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xB7, mnemonic: 'LAX', operation: 'LAX', addressing: 'ZPY', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero'], status: 'illegal' },
+    { opcode: 0xB8, mnemonic: 'CLV', operation: 'CLV', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['overflow'], status: 'legal' },
+    { opcode: 0xB9, mnemonic: 'LDA', operation: 'LDA', addressing: 'ABY', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xBA, mnemonic: 'TSX', operation: 'TSX', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xBB, mnemonic: 'LAS', operation: 'LEA', addressing: 'ABY', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'illegal' },
+    { opcode: 0xBC, mnemonic: 'LDY', operation: 'LDY', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xBD, mnemonic: 'LDA', operation: 'LDA', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xBE, mnemonic: 'LDX', operation: 'LDX', addressing: 'ABY', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xBF, mnemonic: 'LAX', operation: 'LAX', addressing: 'ABY', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero'], status: 'illegal' },
+    { opcode: 0xC0, mnemonic: 'CPY', operation: 'CPY', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xC1, mnemonic: 'CMP', operation: 'CMP', addressing: 'IDX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'read', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xC2, mnemonic: 'NOP', operation: 'NOP', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0xC3, mnemonic: 'DCP', operation: 'DCP', addressing: 'IDX', bytes: 2, cycles: 8, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xC4, mnemonic: 'CPY', operation: 'CPY', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xC5, mnemonic: 'CMP', operation: 'CMP', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xC6, mnemonic: 'DEC', operation: 'DEC', addressing: 'ZPG', bytes: 2, cycles: 5, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xC7, mnemonic: 'DCP', operation: 'DCP', addressing: 'ZPG', bytes: 2, cycles: 5, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xC8, mnemonic: 'INY', operation: 'INY', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xC9, mnemonic: 'CMP', operation: 'CMP', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xCA, mnemonic: 'DEX', operation: 'DEX', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xCB, mnemonic: 'SBX', operation: 'SBX', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xCC, mnemonic: 'CPY', operation: 'CPY', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xCD, mnemonic: 'CMP', operation: 'CMP', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xCE, mnemonic: 'DEC', operation: 'DEC', addressing: 'ABS', bytes: 3, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xCF, mnemonic: 'DCP', operation: 'DCP', addressing: 'ABS', bytes: 3, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xD0, mnemonic: 'BNE', operation: 'BNE', addressing: 'REL', bytes: 2, cycles: 2, pageCrossing: 1, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0xD1, mnemonic: 'CMP', operation: 'CMP', addressing: 'IDY', bytes: 2, cycles: 5, pageCrossing: 1, access: 'read', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xD2, mnemonic: 'JAM', operation: 'JAM', addressing: 'IMP', bytes: 1, cycles: 0, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0xD3, mnemonic: 'DCP', operation: 'DCP', addressing: 'IDY', bytes: 2, cycles: 8, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xD4, mnemonic: 'NOP', operation: 'NOP', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0xD5, mnemonic: 'CMP', operation: 'CMP', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xD6, mnemonic: 'DEC', operation: 'DEC', addressing: 'ZPX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xD7, mnemonic: 'DCP', operation: 'DCP', addressing: 'ZPX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xD8, mnemonic: 'CLD', operation: 'CLD', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['decimal'], status: 'legal' },
+    { opcode: 0xD9, mnemonic: 'CMP', operation: 'CMP', addressing: 'ABY', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xDA, mnemonic: 'NOP', operation: 'NOP', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0xDB, mnemonic: 'DCP', operation: 'DCP', addressing: 'ABY', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xDC, mnemonic: 'NOP', operation: 'NOP', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0xDD, mnemonic: 'CMP', operation: 'CMP', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xDE, mnemonic: 'DEC', operation: 'DEC', addressing: 'ABX', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xDF, mnemonic: 'DCP', operation: 'DCP', addressing: 'ABX', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xE0, mnemonic: 'CPX', operation: 'CPX', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xE1, mnemonic: 'SBC', operation: 'SBC', addressing: 'IDX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xE2, mnemonic: 'NOP', operation: 'NOP', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0xE3, mnemonic: 'ISB', operation: 'ISB', addressing: 'IDX', bytes: 2, cycles: 8, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xE4, mnemonic: 'CPX', operation: 'CPX', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xE5, mnemonic: 'SBC', operation: 'SBC', addressing: 'ZPG', bytes: 2, cycles: 3, pageCrossing: 0, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xE6, mnemonic: 'INC', operation: 'INC', addressing: 'ZPG', bytes: 2, cycles: 5, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xE7, mnemonic: 'ISB', operation: 'ISB', addressing: 'ZPG', bytes: 2, cycles: 5, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xE8, mnemonic: 'INX', operation: 'INX', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xE9, mnemonic: 'SBC', operation: 'SBC', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xEA, mnemonic: 'NOP', operation: 'NOP', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0xEB, mnemonic: 'SBC', operation: 'USB', addressing: 'IMM', bytes: 2, cycles: 2, pageCrossing: 0, access: 'none', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xEC, mnemonic: 'CPX', operation: 'CPX', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xED, mnemonic: 'SBC', operation: 'SBC', addressing: 'ABS', bytes: 3, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xEE, mnemonic: 'INC', operation: 'INC', addressing: 'ABS', bytes: 3, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xEF, mnemonic: 'ISB', operation: 'ISB', addressing: 'ABS', bytes: 3, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xF0, mnemonic: 'BEQ', operation: 'BEQ', addressing: 'REL', bytes: 2, cycles: 2, pageCrossing: 1, access: 'none', flags: [], status: 'legal' },
+    { opcode: 0xF1, mnemonic: 'SBC', operation: 'SBC', addressing: 'IDY', bytes: 2, cycles: 5, pageCrossing: 1, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xF2, mnemonic: 'JAM', operation: 'JAM', addressing: 'IMP', bytes: 1, cycles: 0, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0xF3, mnemonic: 'ISB', operation: 'ISB', addressing: 'IDY', bytes: 2, cycles: 8, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xF4, mnemonic: 'NOP', operation: 'NOP', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0xF5, mnemonic: 'SBC', operation: 'SBC', addressing: 'ZPX', bytes: 2, cycles: 4, pageCrossing: 0, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xF6, mnemonic: 'INC', operation: 'INC', addressing: 'ZPX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xF7, mnemonic: 'ISB', operation: 'ISB', addressing: 'ZPX', bytes: 2, cycles: 6, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xF8, mnemonic: 'SED', operation: 'SED', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: ['decimal'], status: 'legal' },
+    { opcode: 0xF9, mnemonic: 'SBC', operation: 'SBC', addressing: 'ABY', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xFA, mnemonic: 'NOP', operation: 'NOP', addressing: 'IMP', bytes: 1, cycles: 2, pageCrossing: 0, access: 'none', flags: [], status: 'illegal' },
+    { opcode: 0xFB, mnemonic: 'ISB', operation: 'ISB', addressing: 'ABY', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+    { opcode: 0xFC, mnemonic: 'NOP', operation: 'NOP', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: [], status: 'illegal' },
+    { opcode: 0xFD, mnemonic: 'SBC', operation: 'SBC', addressing: 'ABX', bytes: 3, cycles: 4, pageCrossing: 1, access: 'read', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'legal' },
+    { opcode: 0xFE, mnemonic: 'INC', operation: 'INC', addressing: 'ABX', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'zero'], status: 'legal' },
+    { opcode: 0xFF, mnemonic: 'ISB', operation: 'ISB', addressing: 'ABX', bytes: 3, cycles: 7, pageCrossing: 0, access: 'readModifyWrite', flags: ['negative', 'overflow', 'zero', 'carry'], status: 'illegal' },
+];
@@ -0,0 +1,258 @@
+//#################################################################################
+//#     Title:  Trace 6510
+//#     Author: Delta Thiesen <delta.thiesen.1990@gmail.com>
+//#################################################################################
+//#     Sources:
+//#         - https://www.qmtpro.com/~nes/misc/nestest.log
+//#################################################################################
+
+//#################################################################################
+//#
+//#     IMPORTS
+//#
+//#################################################################################
+
+import { byte, word } from "@hulle107/libslm-binary";
+import { cpu6510, Registers } from "./cpu6510";
+import { DisassembledLine, disassembleInstruction } from "./disassembler";
+
+//#################################################################################
+//#
+//#     INTERFACES
+//#
+//#################################################################################
+
+/**
+ * # Trace Output
+ * 
+ * Where a {@link TraceWriter} writes its lines, like a stream from `fs.createWriteStream` to write to a file, or
+ * `process.stdout`.
+ */
+export interface TraceOutput {
+    write(text: string): unknown;
+}
+
+/**
+ * # Trace Entry
+ * 
+ * The state of the processor when an instruction is loaded, where *cycles* are those run before the operation code is
+ * read.
+ */
+export interface TraceEntry {
+    line: DisassembledLine;
+    registers: Readonly<Registers>;
+    cycles: number;
+
+    /**
+     * The memory the operand refers to, like `= 5A` or `@ 0300 = 89`, see {@link annotateOperand}.
+     */
+    annotation?: string;
+}
+
+//#################################################################################
+//#
+//#     CONSTANTS
+//#
+//#################################################################################
+
+const INSTRUCTION_COLUMN = 16;
+const REGISTERS_COLUMN = 48;
+const ILLEGAL_MARKER = '*';
+const LINE_END = '\n';
+
+//#################################################################################
+//#
+//#     CLASSES
+//#
+//#################################################################################
+
+/**
+ * # Trace Writer
+ * 
+ * Writes *one* line for every instruction a {@link cpu6510} loads, see {@link formatTrace} for the format.
+ * 
+ * Interrupts and the reset sequence are not instructions, so they are not traced, but the cycles they take are counted
+ * by the next line.
+ */
+export class TraceWriter {
+    protected cpu: cpu6510;
+    protected output: TraceOutput;
+    protected previous?: (address: word) => void;
+    protected isAttached: boolean = false;
+
+    constructor(cpu: cpu6510, output: TraceOutput) {
+        this.cpu = cpu;
+        this.output = output;
+    }
+
+    /**
+     * # Attached
+     * 
+     * Whether instructions are being traced.
+     */
+    public get attached(): boolean { return this.isAttached; }
+
+    /**
+     * # Attach
+     * 
+     * Starts tracing instructions through {@link cpu6510.onInstruction}, still calling the handler that was set.
+     */
+    public attach(): void {
+        if (this.isAttached) return;
+
+        this.previous = this.cpu.onInstruction;
+        this.cpu.onInstruction = (address) => {
+            if (this.previous) this.previous(address);
+            this.write(this.capture(address));
+        };
+        this.isAttached = true;
+    }
+
+    /**
+     * # Detach
+     * 
+     * Stops tracing instructions, restoring the handler of {@link cpu6510.onInstruction} that was set when attaching.
+     */
+    public detach(): void {
+        if (!this.isAttached) return;
+
+        this.cpu.onInstruction = this.previous;
+        this.previous = undefined;
+        this.isAttached = false;
+    }
+
+    /**
+     * # Write
+     * 
+     * Writes the entry as *one* line.
+     */
+    public write(entry: TraceEntry): void {
+        this.output.write(formatTrace(entry) + LINE_END);
+    }
+
+    /**
+     * # Capture
+     * 
+     * Used to capture the instruction at the address, where the clock cycle reading its operation code has already been
+     * counted.
+     */
+    protected capture(address: word): TraceEntry {
+        let peek = (location: word) => this.cpu.peek(location);
+        let line = disassembleInstruction(peek, address);
+        let registers = this.cpu.registers;
+
+        return {
+            line: line,
+            registers: registers,
+            cycles: this.cpu.cycles - 1,
+            annotation: annotateOperand(line, registers, peek),
+        };
+    }
+}
+
+//#################################################################################
+//#
+//#     PUBLIC FUNCTIONS
+//#
+//#################################################################################
+
+/**
+ * # Format Trace
+ * 
+ * Formats an entry in the format of the `nestest.log` reference trace, without the picture processing unit column:
+ * 
+ * ```
+ * C000  4C F5 C5  JMP $C5F5                       A:00 X:00 Y:00 P:24 SP:FD CYC:7
+ * ```
+ * 
+ * - Column *zero* is the address of the instruction, as *four* hexadecimal digits.
+ * - Column *six* is the bytes of the instruction, as hexadecimal separated by spaces.
+ * - Column *fifteen* is `*` for illegal and unstable operations.
+ * - Column *sixteen* is the disassembled instruction, followed by the annotation of the entry when it has *one*.
+ * - Column *forty-eight* is the **accumulator**, **index x**, **index y**, **processor status** and
+ *   **stack pointer** before the instruction, as hexadecimal, followed by the cycles run before it, as decimal, where
+ *   the unused bit *five* of the **processor status** is set, as the processor pushes it.
+ */
+export function formatTrace(entry: TraceEntry): string {
+    let registers = entry.registers;
+    let instruction = entry.line.operand === ''? entry.line.mnemonic : entry.line.mnemonic + ' ' + entry.line.operand;
+    if (entry.annotation) instruction += ' ' + entry.annotation;
+    let marker = entry.line.opcode.status === 'legal'? ' ' : ILLEGAL_MARKER;
+
+    let text = word.toHexadecimal(entry.line.address) + '  ' + entry.line.bytes.map((data) => byte.toHexadecimal(data)).join(' ');
+    text = padEnd(text, INSTRUCTION_COLUMN - 1) + marker + instruction;
+    text = padEnd(text, REGISTERS_COLUMN);
+
+    return text
+        + 'A:' + byte.toHexadecimal(registers.accumulator)
+        + ' X:' + byte.toHexadecimal(registers.indexX)
+        + ' Y:' + byte.toHexadecimal(registers.indexY)
+        + ' P:' + byte.toHexadecimal(byte(registers.statusRegister | 0b00100000))
+        + ' SP:' + byte.toHexadecimal(registers.stackPointer)
+        + ' CYC:' + entry.cycles;
+}
+
+/**
+ * # Annotate Operand
+ * 
+ * Tells the memory the operand of the instruction refers to before it runs, as `nestest.log` does:
+ * 
+ * | Addressing | Annotation | Example |
+ * |:----------:|:-----------|:--------|
+ * | ZPG, ABS   | The value. | `LDA $0300 = 89` |
+ * | ZPX, ZPY   | The indexed address and the value. | `LDA $33,X @ 33 = AA` |
+ * | ABX, ABY   | The indexed address and the value. | `LDA $0300,X @ 0301 = 89` |
+ * | IDX        | The indexed pointer, the address and the value. | `LDA ($80,X) @ 80 = 0200 = 5A` |
+ * | IDY        | The address, the indexed address and the value. | `LDA ($89),Y = 0300 @ 0300 = 89` |
+ * | IND        | The target, read with the page wrap of the processor. | `JMP ($0200) = DB7E` |
+ * 
+ * Other addressings tell nothing, giving an empty string. Memory is read through the *peek* function, which should
+ * not have side effects, like {@link cpu6510.peek}.
+ */
+export function annotateOperand(line: DisassembledLine, registers: Readonly<Registers>, peek: (address: word) => byte): string {
+    let bytes = line.bytes;
+    let pointer = (address: word, page: word) => word((peek(word(page | ((address + 1) & 0xFF))) << byte.size) + peek(address));
+    let value = (address: word) => '= ' + byte.toHexadecimal(peek(address));
+
+    switch (line.opcode.addressing) {
+        case 'ZPG': return value(bytes[1]);
+        case 'ABS': return value(word((bytes[2] << byte.size) + bytes[1]));
+        case 'ZPX':
+        case 'ZPY': {
+            let address = byte(bytes[1] + (line.opcode.addressing === 'ZPX'? registers.indexX : registers.indexY));
+            return '@ ' + byte.toHexadecimal(address) + ' ' + value(address);
+        }
+        case 'ABX':
+        case 'ABY': {
+            let index = line.opcode.addressing === 'ABX'? registers.indexX : registers.indexY;
+            let address = word((bytes[2] << byte.size) + bytes[1] + index);
+            return '@ ' + word.toHexadecimal(address) + ' ' + value(address);
+        }
+        case 'IDX': {
+            let location = byte(bytes[1] + registers.indexX);
+            let address = pointer(location, 0);
+            return '@ ' + byte.toHexadecimal(location) + ' = ' + word.toHexadecimal(address) + ' ' + value(address);
+        }
+        case 'IDY': {
+            let base = pointer(bytes[1], 0);
+            let address = word(base + registers.indexY);
+            return '= ' + word.toHexadecimal(base) + ' @ ' + word.toHexadecimal(address) + ' ' + value(address);
+        }
+        case 'IND': {
+            let location = word((bytes[2] << byte.size) + bytes[1]);
+            return '= ' + word.toHexadecimal(pointer(location, word(location & 0xFF00)));
+        }
+        default: return '';
+    }
+}
+
+//#################################################################################
+//#
+//#     PRIVATE FUNCTIONS
+//#
+//#################################################################################
+
+function padEnd(text: string, width: number): string {
+    while (text.length < width) text += ' ';
+    return text;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { clock, hex, machine } from "./machine";
+
+/**
+ * The accumulator and carry going in, the operand, and the accumulator and the flags set among `NVZC` coming out.
+ */
+type Case = [accumulator: number, data: number, carry: number, result: number, flags: string];
+
+const ADDITIONS: Case[] = [
+    [0x50, 0x10, 0, 0x60, ''],
+    [0x50, 0x50, 0, 0xA0, 'NV'],
+    [0xFF, 0x01, 0, 0x00, 'ZC'],
+    [0x80, 0xFF, 0, 0x7F, 'VC'],
+    [0x99, 0x01, 0, 0x9A, 'N'],
+    [0x0F, 0x01, 1, 0x11, ''],
+];
+
+const DECIMAL_ADDITIONS: Case[] = [
+    [0x12, 0x34, 1, 0x47, ''],
+    [0x00, 0x00, 0, 0x00, 'Z'],
+    [0x99, 0x01, 0, 0x00, 'NC'],
+    [0x0F, 0x01, 0, 0x16, ''],
+    [0x79, 0x00, 1, 0x80, 'NV'],
+    [0x90, 0x90, 0, 0x80, 'VC'],
+];
+
+const SUBTRACTIONS: Case[] = [
+    [0x50, 0x10, 1, 0x40, 'C'],
+    [0x50, 0xB0, 1, 0xA0, 'NV'],
+    [0x00, 0x01, 1, 0xFF, 'N'],
+    [0x05, 0x05, 0, 0xFF, 'N'],
+    [0x05, 0x05, 1, 0x00, 'ZC'],
+];
+
+const DECIMAL_SUBTRACTIONS: Case[] = [
+    [0x46, 0x12, 1, 0x34, 'C'],
+    [0x40, 0x13, 0, 0x26, 'C'],
+    [0x10, 0x01, 1, 0x09, 'C'],
+    [0x01, 0x01, 1, 0x00, 'ZC'],
+    [0x00, 0x01, 1, 0x99, 'N'],
+    [0x00, 0x21, 1, 0x79, 'N'],
+];
+
+/**
+ * Runs `sed` or `cld`, `sec` or `clc`, `lda #accumulator` and the operation with the immediate operand.
+ */
+function perform(opcode: number, decimal: boolean, [accumulator, data, carry]: Case): { result: number, flags: string } {
+    let { cpu } = machine([decimal? 0xF8 : 0xD8, carry? 0x38 : 0x18, 0xA9, accumulator, opcode, data]);
+    clock(cpu, 4 * 2);
+
+    let set = cpu.flags;
+    let flags = (set.negative? 'N' : '') + (set.overflow? 'V' : '') + (set.zero? 'Z' : '') + (set.carry? 'C' : '');
+
+    return { result: cpu.registers.accumulator, flags };
+}
+
+function check(opcode: number, decimal: boolean, cases: Case[]): void {
+    for (let entry of cases) {
+        let [accumulator, data, carry, result, flags] = entry;
+        let name = hex(accumulator, 2) + ' ' + hex(data, 2) + ' carry ' + carry;
+        expect(perform(opcode, decimal, entry), name).toEqual({ result, flags });
+    }
+}
+
+describe('arithmetic', () => {
+    it('adds in binary mode', () => {
+        check(0x69, false, ADDITIONS);
+    });
+
+    it('adds in decimal mode, taking negative and overflow from the intermediate result and zero from the binary one', () => {
+        check(0x69, true, DECIMAL_ADDITIONS);
+    });
+
+    it('subtracts in binary mode with SBC and USB', () => {
+        check(0xE9, false, SUBTRACTIONS);
+        check(0xEB, false, SUBTRACTIONS);
+    });
+
+    it('subtracts in decimal mode with SBC and USB, taking the flags from the binary result', () => {
+        check(0xE9, true, DECIMAL_SUBTRACTIONS);
+        check(0xEB, true, DECIMAL_SUBTRACTIONS);
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { assemble, AssemblerError } from "../src/assembler";
+import { disassembleInstruction } from "../src/disassembler";
+import { OPCODES } from "../src/opcodes";
+
+describe('assembler', () => {
+    it('rejects parentheses around the operand of instructions without indirect addressing', () => {
+        expect(() => assemble('lda ($10)')).toThrow(AssemblerError);
+        expect(assemble('lda (1+2)*3').bytes).toEqual([0xA5, 0x09]);
+        expect(assemble('jmp ($1234)').bytes).toEqual([0x6C, 0x34, 0x12]);
+    });
+
+    it('rejects overlapping segments', () => {
+        expect(() => assemble('*=$C000\n .byte 1\n*=$C000\n .byte 2')).toThrow(AssemblerError);
+        expect(() => assemble('*=$C000\n .byte 1, 2\n*=$C001\n .byte 3')).toThrow(AssemblerError);
+        expect(assemble('*=$C000\n .byte 1\n*=$C001\n .byte 2').bytes).toEqual([1, 2]);
+    });
+
+    it('rejects values that do not fit', () => {
+        expect(() => assemble('.byte 256')).toThrow(AssemblerError);
+        expect(() => assemble('.word 70000')).toThrow(AssemblerError);
+        expect(() => assemble('.word -$8001')).toThrow(AssemblerError);
+        expect(() => assemble('jmp $10000')).toThrow(AssemblerError);
+        expect(() => assemble('*=$10000')).toThrow(AssemblerError);
+        expect(assemble('.word $FFFF, -1').bytes).toEqual([0xFF, 0xFF, 0xFF, 0xFF]);
+        expect(assemble('jmp -$8000').bytes).toEqual([0x4C, 0x00, 0x80]);
+    });
+
+    it('rejects division by zero', () => {
+        expect(() => assemble('.byte 1/0')).toThrow('Line 1: Division by zero in "1/0"');
+        expect(() => assemble('jmp 5/0')).toThrow(AssemblerError);
+        expect(assemble('.byte 7/2').bytes).toEqual([3]);
+    });
+
+    it('uses absolute addressing for hexadecimal numbers written with more than two digits', () => {
+        expect(assemble('lda $0010').bytes).toEqual([0xAD, 0x10, 0x00]);
+        expect(assemble('lda $10').bytes).toEqual([0xA5, 0x10]);
+    });
+
+    it('assembles what the disassembler writes back to the same bytes for every legal operation', () => {
+        for (let opcode of OPCODES) {
+            if (opcode.status !== 'legal') continue;
+
+            let bytes = [opcode.opcode, 0x10, 0x00].slice(0, opcode.bytes);
+            let line = disassembleInstruction(bytes.concat([0, 0]), 0x0000);
+            let source = line.mnemonic + (line.operand === ''? '' : ' ' + line.operand);
+
+            expect(assemble(source).bytes, source).toEqual(bytes);
+        }
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { clock, Machine, machine } from "./machine";
+
+/**
+ * Runs `clc` and clears the bus accesses, so those of the branch following it are left.
+ */
+function afterCarryCleared(bytes: number[], origin?: number): Machine {
+    let test = machine([0x18, ...bytes], origin);
+    clock(test.cpu, 2);
+    test.accesses.length = 0;
+    return test;
+}
+
+describe('branches', () => {
+    it('takes two clock cycles when the branch is not taken', () => {
+        // clc, bcs $0213
+        let test = afterCarryCleared([0xB0, 0x10]);
+        clock(test.cpu, 2 + 1);
+
+        expect(test.accesses).toEqual(['R $0201 $B0', 'R $0202 $10', 'R $0203 $00']);
+    });
+
+    it('takes three clock cycles when the branch is taken to the same page', () => {
+        // clc, bcc $0213
+        let test = afterCarryCleared([0x90, 0x10]);
+        clock(test.cpu, 3 + 1);
+
+        expect(test.accesses).toEqual(['R $0201 $90', 'R $0202 $10', 'R $0203 $00', 'R $0213 $00']);
+    });
+
+    it('takes four clock cycles when the branch is taken to another page, reading from the wrong page first', () => {
+        // clc, bcc $0303
+        let test = afterCarryCleared([0x90, 0x10], 0x02F0);
+        clock(test.cpu, 4 + 1);
+
+        expect(test.accesses).toEqual(['R $02F1 $90', 'R $02F2 $10', 'R $02F3 $00', 'R $0203 $00', 'R $0303 $00']);
+    });
+
+    it('reads from the wrong page when a backward branch crosses a page', () => {
+        // clc, bcc $02F3
+        let test = afterCarryCleared([0x90, 0xF0], 0x0300);
+        clock(test.cpu, 4 + 1);
+
+        expect(test.accesses).toEqual(['R $0301 $90', 'R $0302 $F0', 'R $0303 $00', 'R $03F3 $00', 'R $02F3 $00']);
+    });
+});
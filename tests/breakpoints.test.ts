@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { BreakpointHit } from "../src/breakpoints";
+import { assembled, clock } from "./machine";
+
+const VECTORS = `
+*=$0300
+irq inc $10
+ rti
+*=$FFFA
+ .word irq, start, irq
+`;
+
+describe('breakpoints', () => {
+    it('fires an execute breakpoint after an interrupt serviced before the instruction', () => {
+        let { cpu, memory, program } = assembled(`
+*=$C000
+start cli
+ nop
+target nop
+` + VECTORS);
+        cpu.breakpoints.add({ kind: 'execute', address: program.symbols.target });
+
+        cpu.stepInstruction();
+        cpu.interruptRequest();
+        cpu.stepInstruction();
+        cpu.interruptRequest(false);
+        let summary = cpu.runUntil(() => false, 100);
+
+        expect(summary.reason).toBe('breakpoint');
+        expect(summary.programCounter).toBe(program.symbols.target);
+        expect(memory[0x10]).toBe(1);
+    });
+
+    it('does not fire read or write breakpoints while the address enable control is inactive', () => {
+        let { cpu, memory } = assembled(`
+*=$C000
+start lda #$2A
+ sta $3000
+` + VECTORS);
+        let hits: BreakpointHit[] = [];
+        cpu.onBreakpoint = (hit) => hits.push(hit);
+        cpu.breakpoints.add({ kind: 'write', start: 0x3000 });
+
+        clock(cpu, 2 + 3);
+        cpu.addressEnableControl(false);
+        clock(cpu, 1);
+
+        expect(hits).toEqual([]);
+        expect(memory[0x3000]).toBe(0x00);
+    });
+
+    it('counts hits against the ignore count', () => {
+        let { cpu, program } = assembled(`
+*=$C000
+start ldx #0
+loop inx
+ bne loop
+` + VECTORS);
+        let breakpoint = cpu.breakpoints.add({ kind: 'execute', address: program.symbols.loop }, { ignore: 2, condition: 'x & 1' });
+        let summary = cpu.runUntil(() => false, 1000);
+
+        expect(summary.reason).toBe('breakpoint');
+        expect(cpu.registers.indexX).toBe(5);
+        expect(breakpoint.hits).toBe(3);
+    });
+
+    it('reads memory in conditions without side effects', () => {
+        let { cpu, memory } = assembled(`
+*=$C000
+start inc $0200
+ jmp start
+` + VECTORS);
+        memory[0xD019] = 0x81;
+        cpu.memory = {
+            read: (address) => {
+                let data = memory[address];
+                if (address === 0xD019) memory[address] = 0;
+                return data;
+            },
+            write: (address, data) => { memory[address] = data; },
+            peek: (address) => memory[address],
+        };
+        cpu.breakpoints.add({ kind: 'condition', condition: '@$D019 == $81 && @$0200 == 3 && 1 / 0 == 0' });
+        let summary = cpu.runUntil(() => false, 1000);
+
+        expect(summary.reason).toBe('breakpoint');
+        expect(memory[0x0200]).toBe(3);
+        expect(memory[0xD019]).toBe(0x81);
+    });
+});
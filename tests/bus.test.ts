@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { BusTrace, formatWaveform } from "../src/bus";
+import { assembled, clock } from "./machine";
+
+describe('bus', () => {
+    it('times samples by their clock cycle rather than their place', () => {
+        let { cpu } = assembled(`
+*=$C000
+start inc $0200
+ jmp start
+*=$FFFA
+ .word start, start, start
+`);
+        let trace = new BusTrace(cpu);
+        trace.attach();
+        clock(cpu, 4);
+        trace.detach();
+        clock(cpu, 3);
+        trace.attach();
+        clock(cpu, 2);
+
+        let first = trace.samples[0].cycle;
+        let times = formatWaveform(trace.samples, { period: 10 }).split('\n').filter((line) => line[0] === '#');
+
+        expect(trace.samples.map((sample) => sample.cycle - first)).toEqual([0, 1, 2, 3, 7, 8]);
+        expect(times[times.length - 1]).toBe('#90');
+        expect(times).toContain('#70');
+        expect(times).not.toContain('#40');
+    });
+
+    it('drives read write low only in write cycles', () => {
+        let { cpu } = assembled(`
+*=$C000
+start sta $0300
+ nop
+*=$FFFA
+ .word start, start, start
+`);
+        let levels: boolean[] = [];
+        for (let cycle = 0; cycle < 6; cycle++) {
+            cpu.clock();
+            levels.push(cpu.readWrite);
+        }
+
+        expect(levels).toEqual([true, true, true, false, true, true]);
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { compileCondition, ConditionContext, ConditionError } from "../src/conditions";
+
+const CONTEXT: ConditionContext = {
+    registers: { programCounter: 0xC000, statusRegister: 0b00100011, stackPointer: 0xFD, accumulator: 0x20, indexX: 3, indexY: 0 },
+    flags: { negative: 0, overflow: 0, break: 0, decimal: 0, interrupt: 0, zero: 1, carry: 1 },
+    cycles: 100001,
+    instructions: 50,
+    peek: (address) => address === 0xD012? 0x80 : address & 0xFF,
+};
+
+function holds(source: string): boolean {
+    return compileCondition(source).evaluate(CONTEXT);
+}
+
+function position(source: string): number {
+    try {
+        compileCondition(source);
+    }
+    catch (error) {
+        if (error instanceof ConditionError) return error.position;
+        throw error;
+    }
+    return -1;
+}
+
+describe('conditions', () => {
+    it('binds the operators by the precedence of JavaScript', () => {
+        expect(holds('1 + 2 * 3 == 7')).toBe(true);
+        expect(holds('(1 + 2) * 3 == 9')).toBe(true);
+        expect(holds('1 | 2 & 0 == 1')).toBe(true);
+        expect(holds('0 && 1 || 1')).toBe(true);
+        expect(holds('1 || 1 && 0')).toBe(true);
+        expect(holds('3 > 2 == 1')).toBe(true);
+        expect(holds('6 ^ 3 == 5')).toBe(true);
+        expect(holds('-1 + 2 == 1 && !0 && ~0 == -1')).toBe(true);
+    });
+
+    it('rounds division down and gives zero when dividing by zero', () => {
+        expect(holds('7 / 2 == 3')).toBe(true);
+        expect(holds('1 / 0 == 0')).toBe(true);
+    });
+
+    it('reads registers, flags and counters by names that are not case sensitive', () => {
+        expect(holds('A == $20 && x == 3 && Sp == %11111101 && pc == 49152 && p == $23')).toBe(true);
+        expect(holds('z && C && !n')).toBe(true);
+        expect(holds('cycles > 100000 && INSTRUCTIONS == 50')).toBe(true);
+    });
+
+    it('reads memory at the address an expression gives', () => {
+        expect(holds('@$D012 == $80')).toBe(true);
+        expect(holds('@($D000 + $12) == $80')).toBe(true);
+        expect(holds('@(X + 1) == 4')).toBe(true);
+        expect(holds('@X + 1 == 4')).toBe(true);
+    });
+
+    it('rejects unknown names', () => {
+        expect(() => compileCondition('A == foo')).toThrow(ConditionError);
+        expect(position('A == foo')).toBe(5);
+    });
+
+    it('tells the position of the error', () => {
+        expect(position('A == ')).toBe(5);
+        expect(position('(A == 1')).toBe(7);
+        expect(position('A == 1 )')).toBe(7);
+        expect(position('A # 1')).toBe(2);
+    });
+});
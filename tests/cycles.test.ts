@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { clock, hex, machine } from "./machine";
+
+/**
+ * Runs `ldx #$20` and `ldy #$20`, then the operation at *$0204*, giving its bus accesses clock cycle by clock cycle.
+ */
+function accesses(bytes: number[], cycles: number, memory: [address: number, data: number][] = []): string[] {
+    let test = machine([0xA2, 0x20, 0xA0, 0x20, ...bytes]);
+    for (let [address, data] of memory) test.memory[address] = data;
+    clock(test.cpu, 2 * 2);
+    test.accesses.length = 0;
+    clock(test.cpu, cycles);
+    return test.accesses;
+}
+
+describe('bus cycles', () => {
+    describe('indexed reads', () => {
+        it('read the effective address at once when no page is crossed', () => {
+            // lda $2000,x
+            expect(accesses([0xBD, 0x00, 0x20], 4)).toEqual(['R $0204 $BD', 'R $0205 $00', 'R $0206 $20', 'R $2020 $00']);
+        });
+
+        it('read from the wrong page before fixing the high order byte of an ABX address', () => {
+            // lda $20F0,x
+            expect(accesses([0xBD, 0xF0, 0x20], 5)).toEqual(['R $0204 $BD', 'R $0205 $F0', 'R $0206 $20', 'R $2010 $00', 'R $2110 $00']);
+        });
+
+        it('read from the wrong page before fixing the high order byte of an ABY address', () => {
+            // ldx $20F0,y
+            expect(accesses([0xBE, 0xF0, 0x20], 5)).toEqual(['R $0204 $BE', 'R $0205 $F0', 'R $0206 $20', 'R $2010 $00', 'R $2110 $00']);
+        });
+
+        it('read from the wrong page before fixing the high order byte of an IDY address', () => {
+            // lda ($10),y
+            expect(accesses([0xB1, 0x10], 6, [[0x10, 0xF0], [0x11, 0x20]])).toEqual([
+                'R $0204 $B1', 'R $0205 $10', 'R $0010 $F0', 'R $0011 $20', 'R $2010 $00', 'R $2110 $00',
+            ]);
+        });
+    });
+
+    describe('indexed stores', () => {
+        it('always read from the address before the high order byte is fixed', () => {
+            // sta $2000,x
+            expect(accesses([0x9D, 0x00, 0x20], 5)).toEqual(['R $0204 $9D', 'R $0205 $00', 'R $0206 $20', 'R $2020 $00', 'W $2020 $00']);
+            // sta $20F0,y
+            expect(accesses([0x99, 0xF0, 0x20], 5)).toEqual(['R $0204 $99', 'R $0205 $F0', 'R $0206 $20', 'R $2010 $00', 'W $2110 $00']);
+            // sta ($10),y
+            expect(accesses([0x91, 0x10], 6, [[0x10, 0x00], [0x11, 0x20]])).toEqual([
+                'R $0204 $91', 'R $0205 $10', 'R $0010 $00', 'R $0011 $20', 'R $2020 $00', 'W $2020 $00',
+            ]);
+        });
+    });
+
+    describe('read modify write', () => {
+        it('writes the unmodified value back before the modified one', () => {
+            // inc $3000
+            expect(accesses([0xEE, 0x00, 0x30], 6, [[0x3000, 0x41]])).toEqual([
+                'R $0204 $EE', 'R $0205 $00', 'R $0206 $30', 'R $3000 $41', 'W $3000 $41', 'W $3000 $42',
+            ]);
+        });
+
+        it('writes the unmodified value back before the modified one in the illegal operations', () => {
+            let operations: [opcode: number, result: number][] = [
+                [0x0F, 0x82], // slo $3000
+                [0x2F, 0x82], // rla $3000
+                [0x4F, 0x20], // sre $3000
+                [0x6F, 0x20], // rra $3000
+                [0xCF, 0x40], // dcp $3000
+                [0xEF, 0x42], // isb $3000
+            ];
+
+            for (let [opcode, result] of operations) {
+                expect(accesses([opcode, 0x00, 0x30], 6, [[0x3000, 0x41]]).slice(3)).toEqual([
+                    'R $3000 $41', 'W $3000 $41', 'W $3000 ' + hex(result, 2),
+                ]);
+            }
+        });
+
+        it('reads from the wrong page and writes twice when indexed', () => {
+            // inc $30F0,x
+            expect(accesses([0xFE, 0xF0, 0x30], 7, [[0x3110, 0x41]])).toEqual([
+                'R $0204 $FE', 'R $0205 $F0', 'R $0206 $30', 'R $3010 $00', 'R $3110 $41', 'W $3110 $41', 'W $3110 $42',
+            ]);
+        });
+    });
+});
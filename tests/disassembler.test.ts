@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { disassemble } from "../src/disassembler";
+
+describe('disassembler', () => {
+    it('marks illegal operations in the text', () => {
+        let lines = disassemble([0xE9, 0x10, 0xEB, 0x10, 0xEA, 0x1A, 0x80, 0x10], 0xC000, 0xC008, { origin: 0xC000 });
+
+        expect(lines.map((line) => line.text)).toEqual([
+            '$C000  E9 10     SBC #$10',
+            '$C002  EB 10    *SBC #$10',
+            '$C004  EA        NOP',
+            '$C005  1A       *NOP',
+            '$C006  80 10    *NOP #$10',
+        ]);
+    });
+});
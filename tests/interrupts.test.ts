@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { clock, Machine, machine, writes } from "./machine";
+
+/**
+ * Makes a machine whose IRQ handler at *$0300* and NMI handler at *$0310* return at once.
+ */
+function interruptible(bytes: number[], origin?: number): Machine {
+    let test = machine(bytes, origin);
+    test.memory.set([0x10, 0x03], 0xFFFA);
+    test.memory.set([0x00, 0x03], 0xFFFE);
+    test.memory[0x0300] = 0x40;
+    test.memory[0x0310] = 0x40;
+    return test;
+}
+
+/**
+ * The reads of the interrupt vectors among the bus accesses.
+ */
+function vectors(test: Machine): string[] {
+    return test.accesses.filter((access) => access.indexOf('R $FFF') === 0);
+}
+
+describe('interrupts', () => {
+    describe('taken branch', () => {
+        it('delays an IRQ arriving while the offset is read by one instruction when no page is crossed', () => {
+            // clc, cli, nop, bcc $0205, nop, nop
+            let test = interruptible([0x18, 0x58, 0xEA, 0x90, 0x00, 0xEA, 0xEA, 0xEA]);
+            clock(test.cpu, 7);
+            test.cpu.interruptRequest();
+            clock(test.cpu, 12);
+
+            expect(writes(test).slice(0, 3)).toEqual(['W $01FD $02', 'W $01FC $06', 'W $01FB $20']);
+        });
+
+        it('services an IRQ arriving while the offset is read after the branch when a page is crossed', () => {
+            // clc, cli, nop, bcc $0301
+            let test = interruptible([0x18, 0x58, 0xEA, 0x90, 0x04], 0x02F8);
+            test.memory.set([0xEA, 0xEA], 0x0301);
+            clock(test.cpu, 7);
+            test.cpu.interruptRequest();
+            clock(test.cpu, 12);
+
+            expect(writes(test).slice(0, 3)).toEqual(['W $01FD $03', 'W $01FC $01', 'W $01FB $20']);
+        });
+    });
+
+    describe('hijacking', () => {
+        it('uses the NMI vector when a NMI arrives while BRK pushes, keeping the break flag', () => {
+            // brk, nop
+            let test = interruptible([0x00, 0xEA]);
+            clock(test.cpu, 3);
+            test.cpu.nonMaskableInterrupt();
+            clock(test.cpu, 4);
+
+            expect(writes(test)).toEqual(['W $01FD $02', 'W $01FC $02', 'W $01FB $34']);
+            expect(vectors(test)).toEqual(['R $FFFA $10', 'R $FFFB $03']);
+        });
+
+        it('uses the NMI vector when a NMI arrives while an IRQ pushes, clearing the break flag', () => {
+            // cli, nop, nop
+            let test = interruptible([0x58, 0xEA, 0xEA]);
+            test.cpu.interruptRequest();
+            clock(test.cpu, 4 + 3);
+            test.cpu.nonMaskableInterrupt();
+            clock(test.cpu, 4);
+
+            expect(writes(test)).toEqual(['W $01FD $02', 'W $01FC $02', 'W $01FB $20']);
+            expect(vectors(test)).toEqual(['R $FFFA $10', 'R $FFFB $03']);
+        });
+    });
+
+    describe('interrupt flag latency', () => {
+        it('services an IRQ after the instruction following CLI', () => {
+            // cli, nop, nop
+            let test = interruptible([0x58, 0xEA, 0xEA]);
+            test.cpu.interruptRequest();
+            clock(test.cpu, 11);
+
+            expect(writes(test)).toEqual(['W $01FD $02', 'W $01FC $02', 'W $01FB $20']);
+        });
+
+        it('services an IRQ after SEI when it arrived before SEI, pushing the interrupt flag set', () => {
+            // cli, nop, sei, nop
+            let test = interruptible([0x58, 0xEA, 0x78, 0xEA]);
+            clock(test.cpu, 4);
+            test.cpu.interruptRequest();
+            clock(test.cpu, 9);
+
+            expect(writes(test)).toEqual(['W $01FD $02', 'W $01FC $03', 'W $01FB $24']);
+        });
+
+        it('services an IRQ after the instruction following PLP clearing the interrupt flag', () => {
+            // lda #0, pha, plp, nop, nop
+            let test = interruptible([0xA9, 0x00, 0x48, 0x28, 0xEA, 0xEA]);
+            test.cpu.interruptRequest();
+            clock(test.cpu, 2 + 3 + 4 + 2 + 7);
+
+            expect(writes(test)).toEqual(['W $01FD $00', 'W $01FD $02', 'W $01FC $05', 'W $01FB $20']);
+        });
+    });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { clock, machine } from "./machine";
+
+describe('jam', () => {
+    it('locks up the processor, telling the address of the operation', () => {
+        // lda #$01, jam
+        let test = machine([0xA9, 0x01, 0x02, 0xEA]);
+        let addresses: number[] = [];
+        test.cpu.onJam = (address) => addresses.push(address);
+        clock(test.cpu, 2 + 2);
+
+        expect(test.cpu.jammed).toBe(true);
+        expect(addresses).toEqual([0x0202]);
+
+        test.accesses.length = 0;
+        clock(test.cpu, 10);
+
+        expect(test.accesses).toEqual([]);
+        expect(test.cpu.addressBus).toBe(0xFFFF);
+        expect(test.cpu.dataBus).toBe(0xFF);
+        expect(addresses).toEqual([0x0202]);
+    });
+
+    it('recovers on reset', () => {
+        // jam
+        let test = machine([0x02]);
+        clock(test.cpu, 2);
+        expect(test.cpu.jammed).toBe(true);
+
+        test.cpu.reset();
+        test.accesses.length = 0;
+        clock(test.cpu, 7 + 1);
+
+        expect(test.cpu.jammed).toBe(false);
+        expect(test.accesses[test.accesses.length - 1]).toBe('R $0200 $02');
+    });
+});
@@ -0,0 +1,84 @@
+import { assemble, AssembledProgram } from "../src/assembler";
+import { cpu6510 } from "../src/cpu6510";
+
+export interface Machine {
+    cpu: cpu6510;
+    memory: Uint8Array;
+
+    /**
+     * The bus accesses since the reset sequence, like `R $0200 $EA` for a read and `W $01FD $02` for a write.
+     */
+    accesses: string[];
+}
+
+export interface AssembledMachine extends Machine {
+    program: AssembledProgram;
+}
+
+/**
+ * Places the bytes at the origin in *64* kB of memory, pointing the reset vector at them, and runs the *seven* clock
+ * cycles of the reset sequence, so the next clock cycle reads the *first* operation code.
+ */
+export function machine(bytes: number[], origin: number = 0x0200): Machine {
+    let memory = new Uint8Array(0x10000);
+    memory.set(bytes, origin);
+    memory.set([origin & 0xFF, origin >> 8], 0xFFFC);
+
+    return boot(memory);
+}
+
+/**
+ * Places the segments of the assembled source in *64* kB of memory, where the source sets the vectors, and runs the
+ * *seven* clock cycles of the reset sequence.
+ */
+export function assembled(source: string): AssembledMachine {
+    let program = assemble(source);
+    let memory = new Uint8Array(0x10000);
+    for (let segment of program.segments) memory.set(segment.bytes, segment.address);
+
+    return { ...boot(memory), program };
+}
+
+/**
+ * Runs the clock cycles, one by one.
+ */
+export function clock(cpu: cpu6510, cycles: number): void {
+    for (let cycle = 0; cycle < cycles; cycle++) cpu.clock();
+}
+
+/**
+ * The writes among the bus accesses, like `W $01FD $02`.
+ */
+export function writes(machine: Machine): string[] {
+    return machine.accesses.filter((access) => access[0] === 'W');
+}
+
+/**
+ * Makes a processor logging its bus accesses to the memory, and runs the reset sequence.
+ */
+function boot(memory: Uint8Array): Machine {
+    let accesses: string[] = [];
+    let cpu = new cpu6510({
+        read: (address) => {
+            accesses.push('R ' + hex(address, 4) + ' ' + hex(memory[address], 2));
+            return memory[address];
+        },
+        write: (address, data) => {
+            accesses.push('W ' + hex(address, 4) + ' ' + hex(data, 2));
+            memory[address] = data;
+        },
+    });
+    clock(cpu, 7);
+    accesses.length = 0;
+
+    return { cpu, memory, accesses };
+}
+
+/**
+ * Formats the value as hexadecimal with the digits given, like `$00FF`.
+ */
+export function hex(value: number, digits: number): string {
+    let text = value.toString(16).toUpperCase();
+    while (text.length < digits) text = '0' + text;
+    return '$' + text;
+}
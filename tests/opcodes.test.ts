@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { cpu6510 } from "../src/cpu6510";
+import { OPCODES } from "../src/opcodes";
+
+function cycles(opcode: number, index: number): number {
+    let memory = new Uint8Array(0x10000);
+    memory.set([opcode, 0x10, 0x20], 0x0200);
+    memory.set([0x10, 0x20], 0x0010);
+    memory.set([0x00, 0x02], 0xFFFC);
+
+    let cpu = new cpu6510({ read: (address) => memory[address], write: (address, data) => { memory[address] = data; } });
+    cpu.stepInstruction();
+    cpu.setRegisters({ indexX: index, indexY: index, stackPointer: 0xFF });
+
+    return cpu.stepInstruction().cycles;
+}
+
+describe('opcodes', () => {
+    let performed = OPCODES.filter((opcode) => opcode.cycles !== 0 && opcode.addressing !== 'REL');
+
+    it('takes the clock cycles of the table when no page is crossed', () => {
+        for (let opcode of performed) expect(cycles(opcode.opcode, 0x00), opcode.mnemonic + ' ' + opcode.opcode).toBe(opcode.cycles);
+    });
+
+    it('adds the page crossing clock cycles of the table when an indexed address crosses a page', () => {
+        for (let opcode of performed) {
+            let indexed = opcode.addressing === 'ABX' || opcode.addressing === 'ABY' || opcode.addressing === 'IDY';
+            let expected = opcode.cycles + (indexed? opcode.pageCrossing : 0);
+            expect(cycles(opcode.opcode, 0xFF), opcode.mnemonic + ' ' + opcode.opcode).toBe(expected);
+        }
+    });
+
+    it('only has a page crossing penalty for operations reading memory', () => {
+        for (let opcode of OPCODES) {
+            if (opcode.addressing === 'REL') continue;
+            expect(opcode.pageCrossing !== 0, opcode.mnemonic + ' ' + opcode.opcode).toBe(opcode.access === 'read' && (opcode.addressing === 'ABX' || opcode.addressing === 'ABY' || opcode.addressing === 'IDY'));
+        }
+    });
+
+    it('marks the operations following the unstable configuration as unstable', () => {
+        let unstable = OPCODES.filter((opcode) => opcode.status === 'unstable').map((opcode) => opcode.mnemonic);
+        expect(unstable).toEqual(['ANE', 'SHA', 'TAS', 'SHY', 'SHX', 'SHA', 'LXA']);
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { clock, machine } from "./machine";
+
+/**
+ * The clock cycles the charge of bit *six* and *seven* lasts after they stop being driven.
+ */
+const FALL_OFF_CYCLES = 350000;
+
+describe('port', () => {
+    it('reads the lines with pull-ups as set after reset, when every line is an input', () => {
+        // lda $01, sta $10
+        let test = machine([0xA5, 0x01, 0x85, 0x10]);
+        clock(test.cpu, 3 + 3);
+
+        expect(test.memory[0x10]).toBe(0x17);
+        expect(test.cpu.port).toBe(0x17);
+    });
+
+    it('drives the output lines from the port data register and the input lines from the port input', () => {
+        // lda #$2F, sta $00, lda #$08, sta $01
+        let test = machine([0xA9, 0x2F, 0x85, 0x00, 0xA9, 0x08, 0x85, 0x01]);
+        let levels: number[] = [];
+        test.cpu.onPort = (port) => levels.push(port);
+        test.cpu.portInput = 0x3F;
+        clock(test.cpu, 2 * (2 + 3));
+
+        expect(levels).toEqual([0x10, 0x18]);
+        expect(test.cpu.port).toBe(0x18);
+
+        test.cpu.portInput = 0x00;
+
+        expect(test.cpu.port).toBe(0x08);
+    });
+
+    it('reads bit six and seven as last driven until the charge has faded away', () => {
+        // lda #$C0, sta $00, sta $01, lda #$00, sta $00, loop lda $01, sta $10, jmp loop
+        let test = machine([0xA9, 0xC0, 0x85, 0x00, 0x85, 0x01, 0xA9, 0x00, 0x85, 0x00, 0xA5, 0x01, 0x85, 0x10, 0x4C, 0x0A, 0x02]);
+        clock(test.cpu, 2 + 3 + 3 + 2 + 3 + 100);
+
+        expect(test.memory[0x10]).toBe(0xC0 | 0x17);
+
+        clock(test.cpu, FALL_OFF_CYCLES - 200);
+
+        expect(test.memory[0x10]).toBe(0xC0 | 0x17);
+
+        clock(test.cpu, 300);
+
+        expect(test.memory[0x10]).toBe(0x17);
+    }, 60000);
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { clock, machine, writes } from "./machine";
+
+describe('ready', () => {
+    it('holds the address and data of a halted read on the bus', () => {
+        // inc $3000, nop
+        let test = machine([0xEE, 0x00, 0x30, 0xEA]);
+        test.memory[0x3000] = 0x41;
+        clock(test.cpu, 3);
+        test.cpu.ready(false);
+
+        for (let cycle = 0; cycle < 4; cycle++) {
+            test.cpu.clock();
+            expect(test.cpu.addressBus).toBe(0x3000);
+            expect(test.cpu.dataBus).toBe(0x41);
+        }
+
+        test.cpu.ready(true);
+        clock(test.cpu, 4);
+
+        expect(test.memory[0x3000]).toBe(0x42);
+        expect(writes(test)).toEqual(['W $3000 $41', 'W $3000 $42']);
+        expect(test.cpu.addressBus).toBe(0x0203);
+    });
+
+    it('continues write cycles while halted and stops at the next read', () => {
+        // inc $3000, inc $3000
+        let test = machine([0xEE, 0x00, 0x30, 0xEE, 0x00, 0x30]);
+        clock(test.cpu, 4);
+        test.cpu.ready(false);
+        clock(test.cpu, 2);
+
+        expect(test.memory[0x3000]).toBe(0x01);
+
+        clock(test.cpu, 5);
+
+        expect(test.cpu.addressBus).toBe(0x0203);
+        expect(test.memory[0x3000]).toBe(0x01);
+
+        test.cpu.ready(true);
+        clock(test.cpu, 6);
+
+        expect(test.memory[0x3000]).toBe(0x02);
+    });
+
+    it('drops the AND of the unstable stores when halted in the clock cycle ahead of the write', () => {
+        // lda #$0F, ldx #$0F, ldy #$0F, sha $2000,y
+        let test = machine([0xA9, 0x0F, 0xA2, 0x0F, 0xA0, 0x0F, 0x9F, 0x00, 0x20]);
+        clock(test.cpu, 3 * 2 + 3);
+        test.cpu.ready(false);
+        clock(test.cpu, 2);
+        test.cpu.ready(true);
+        clock(test.cpu, 2);
+
+        expect(writes(test)).toEqual(['W $200F $0F']);
+    });
+});
+
+describe('address enable control', () => {
+    it('does not write memory or the port while inactive', () => {
+        // lda #$2A, sta $00, sta $3000, sta $01
+        let test = machine([0xA9, 0x2A, 0x85, 0x00, 0x8D, 0x00, 0x30, 0x85, 0x01]);
+        clock(test.cpu, 2 + 3 + 3);
+        let port = test.cpu.port;
+        test.cpu.addressEnableControl(false);
+        clock(test.cpu, 1);
+        test.cpu.addressEnableControl(true);
+        clock(test.cpu, 2);
+        test.cpu.addressEnableControl(false);
+        clock(test.cpu, 1);
+
+        expect(writes(test)).toEqual(['W $0000 $2A']);
+        expect(test.memory[0x3000]).toBe(0x00);
+        expect(test.cpu.port).toBe(port);
+    });
+});
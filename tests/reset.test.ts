@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { clock, machine } from "./machine";
+
+describe('reset', () => {
+    it('takes seven clock cycles, reading instead of pushing and loading the program counter from the reset vector', () => {
+        // lda #$55, nop
+        let test = machine([0xA9, 0x55, 0xEA]);
+        clock(test.cpu, 2);
+        test.cpu.reset();
+        test.accesses.length = 0;
+        clock(test.cpu, 7);
+
+        expect(test.accesses.slice(2)).toEqual(['R $0100 $00', 'R $01FF $00', 'R $01FE $00', 'R $FFFC $00', 'R $FFFD $02']);
+        expect(test.cpu.registers.stackPointer).toBe(0xFD);
+        expect(test.cpu.flags.interrupt).toBe(1);
+        expect(test.cpu.registers.programCounter).toBe(0x0200);
+
+        test.accesses.length = 0;
+        clock(test.cpu, 1);
+
+        expect(test.accesses).toEqual(['R $0200 $A9']);
+    });
+});
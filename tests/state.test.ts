@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { cpu6510, MemoryLike } from "../src/cpu6510";
+
+interface Recorded {
+    cpu: cpu6510;
+    memory: Uint8Array;
+    accesses: string[];
+}
+
+function recorded(memory: Uint8Array): Recorded {
+    let accesses: string[] = [];
+    let bus: MemoryLike = {
+        read: (address) => { accesses.push('r' + address); return memory[address]; },
+        write: (address, data) => { accesses.push('w' + address + ':' + data); memory[address] = data; },
+    };
+
+    return { cpu: new cpu6510(bus), memory, accesses };
+}
+
+function program(opcode: number): Uint8Array {
+    let memory = new Uint8Array(0x10000);
+    memory.set([opcode, 0xF0, 0x30, 0xEA, 0xEA, 0xEA, 0xEA], 0x0200);
+    memory.set([0xF0, 0x30], 0x00F0);
+    memory.set([0x00, 0x02, 0x00, 0x02, 0x00, 0x04], 0xFFFA);
+    memory[0x0400] = 0x40;
+    return memory;
+}
+
+describe('state', () => {
+    it('resumes every operation from every clock cycle after a round-trip through JSON', () => {
+        for (let opcode = 0; opcode < 0x100; opcode++) {
+            for (let cut = 0; cut < 10; cut++) {
+                let original = recorded(program(opcode));
+                original.cpu.stepInstruction();
+                original.cpu.setRegisters({ indexX: 0x20, indexY: 0xF0, stackPointer: 0xFF });
+                for (let cycle = 0; cycle < cut; cycle++) {
+                    if (cycle === 3) original.cpu.interruptRequest();
+                    original.cpu.clock();
+                }
+
+                let state = JSON.parse(JSON.stringify(original.cpu.getState()));
+                let restored = recorded(original.memory.slice());
+                restored.cpu.setState(state);
+                original.accesses.length = 0;
+                restored.accesses.length = 0;
+
+                for (let cycle = 0; cycle < 20; cycle++) {
+                    original.cpu.clock();
+                    restored.cpu.clock();
+                }
+
+                expect(restored.accesses, 'opcode ' + opcode + ' cut ' + cut).toEqual(original.accesses);
+                expect(restored.cpu.getState(), 'opcode ' + opcode + ' cut ' + cut).toEqual(original.cpu.getState());
+            }
+        }
+    });
+});
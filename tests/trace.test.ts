@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { TraceWriter } from "../src/trace";
+import { assembled } from "./machine";
+
+describe('trace', () => {
+    it('annotates operands and sets bit five of the processor status like nestest', () => {
+        let { cpu, memory } = assembled(`
+*=$C000
+start ldx #1
+ ldy #2
+ lda $10
+ sta $0300
+ lda $0F,x
+ lda $02FF,x
+ lda ($0F,x)
+ lda ($20),y
+ jmp ($02FF)
+*=$FFFA
+ .word start, start, start
+`);
+        memory.set([0x5A, 0x00, 0x02], 0x10);
+        memory.set([0x00, 0x03], 0x20);
+        memory.set([0x89, 0x00, 0x8A], 0x0300);
+        memory[0x0200] = 0xDB;
+        memory[0x02FF] = 0x7E;
+        memory[0x0302] = 0x8B;
+
+        let lines: string[] = [];
+        new TraceWriter(cpu, { write: (text: string) => lines.push(text) }).attach();
+        for (let instruction = 0; instruction < 9; instruction++) cpu.stepInstruction();
+
+        expect(lines[0].slice(48).trim()).toBe('A:00 X:00 Y:00 P:24 SP:FD CYC:7');
+        expect(lines.map((line) => line.slice(16, 48).trim())).toEqual([
+            'LDX #$01',
+            'LDY #$02',
+            'LDA $10 = 5A',
+            'STA $0300 = 89',
+            'LDA $0F,X @ 10 = 5A',
+            'LDA $02FF,X @ 0300 = 5A',
+            'LDA ($0F,X) @ 10 = 005A = 00',
+            'LDA ($20),Y = 0300 @ 0302 = 8B',
+            'JMP ($02FF) = DB7E',
+        ]);
+    });
+});
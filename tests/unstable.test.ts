@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { UnstableConfiguration } from "../src/cpu6510";
+import { clock, hex, machine, writes } from "./machine";
+
+/**
+ * Runs `lda #$0F`, `ldx #$0F`, `ldy #$0F` and the store, indexed by *$0F* from the base address, with the configuration.
+ */
+function store(opcode: number, base: number, unstable: Partial<UnstableConfiguration> = {}): string[] {
+    let test = machine([0xA9, 0x0F, 0xA2, 0x0F, 0xA0, 0x0F, opcode, base & 0xFF, base >> 8]);
+    test.cpu.unstable = { ...test.cpu.unstable, ...unstable };
+    clock(test.cpu, 3 * 2 + 5);
+    return writes(test);
+}
+
+describe('unstable operations', () => {
+    it('ORs the accumulator with the magic constant in ANE', () => {
+        for (let magic of [0xEE, 0xEF, 0xFE, 0xFF]) {
+            // lda #$00, ldx #$0F, ane #$F7
+            let { cpu } = machine([0xA9, 0x00, 0xA2, 0x0F, 0x8B, 0xF7]);
+            cpu.unstable.magicANE = magic;
+            clock(cpu, 3 * 2);
+
+            expect(cpu.registers.accumulator, hex(magic, 2)).toBe(magic & 0x0F & 0xF7);
+        }
+    });
+
+    it('ORs the accumulator with the magic constant in LXA, loading index X too', () => {
+        for (let magic of [0xEE, 0xFF, 0x00]) {
+            // lda #$0F, lxa #$3C
+            let { cpu } = machine([0xA9, 0x0F, 0xAB, 0x3C]);
+            cpu.unstable.magicLXA = magic;
+            clock(cpu, 2 * 2);
+
+            expect(cpu.registers.accumulator, hex(magic, 2)).toBe((0x0F | magic) & 0x3C);
+            expect(cpu.registers.indexX, hex(magic, 2)).toBe((0x0F | magic) & 0x3C);
+        }
+    });
+
+    describe('SHA, SHX, SHY and TAS', () => {
+        let opcodes = [0x9F, 0x9E, 0x9C, 0x9B];
+
+        it('store the value ANDed with the high order byte of the address plus one', () => {
+            for (let opcode of opcodes) expect(store(opcode, 0x2000), hex(opcode, 2)).toEqual(['W $200F $01']);
+        });
+
+        it('store the value as the high order byte of the address when a page is crossed', () => {
+            for (let opcode of opcodes) expect(store(opcode, 0x20F8), hex(opcode, 2)).toEqual(['W $0107 $01']);
+        });
+
+        it('keep the high order byte of the address when the page crossing glitch is off', () => {
+            for (let opcode of opcodes) {
+                expect(store(opcode, 0x20F8, { pageCrossingGlitch: false }), hex(opcode, 2)).toEqual(['W $2107 $01']);
+            }
+        });
+
+        it('store the value as it is when the AND is dropped', () => {
+            for (let opcode of opcodes) {
+                expect(store(opcode, 0x2000, { dropHighByteAnd: true }), hex(opcode, 2)).toEqual(['W $200F $0F']);
+                expect(store(opcode, 0x20F8, { dropHighByteAnd: true }), hex(opcode, 2)).toEqual(['W $0F07 $0F']);
+            }
+        });
+    });
+
+    it('sets the stack pointer to the accumulator ANDed with index X in TAS', () => {
+        // lda #$3C, ldx #$0F, tas $2000,y
+        let { cpu } = machine([0xA9, 0x3C, 0xA2, 0x0F, 0x9B, 0x00, 0x20]);
+        clock(cpu, 2 * 2 + 5);
+
+        expect(cpu.registers.stackPointer).toBe(0x0C);
+    });
+});